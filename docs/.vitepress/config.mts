@@ -28,6 +28,7 @@ export default defineConfig({
           { text: 'DOM components', link: '/dom-components' },
           { text: 'Event Emitters', link: '/event-emitters' },
           { text: 'Knockout integration', link: '/knockout' },
+          { text: 'RxJS and Signals integration', link: '/interop' },
           { text: 'More on observables', link: '/more-observables' },
           { text: 'More on computeds', link: '/more-computeds' },
           { text: 'API reference', link: '/api/' },
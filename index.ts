@@ -1,14 +1,23 @@
+export * from './lib/asyncComputed';
 export * from './lib/binding';
 export * from './lib/computed';
+export * from './lib/debugGraph';
 export * from './lib/dispose';
 export * from './lib/dom';
 export * from './lib/emit';
 export * from './lib/kowrap';
 export * from './lib/obsArray';
+export * from './lib/obsAsync';
+export * from './lib/obsMap';
+export * from './lib/obsOperators';
 export * from './lib/observable';
 export * from './lib/pureComputed';
+export * from './lib/rxwrap';
+export * from './lib/signalwrap';
+export * from './lib/ssr';
 export * from './lib/styled';
 export * from './lib/subscribe';
+export * from './lib/timedObs';
 export * from './lib/util';
 export * from './lib/widgets/input';
 export * from './lib/widgets/select';
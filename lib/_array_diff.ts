@@ -0,0 +1,132 @@
+/**
+ * This module computes the difference between two arrays, as a list of changed regions. It's
+ * used by `MutableObsArray.setWithDiff()` to turn the replacement of an array into a minimal
+ * sequence of splices.
+ *
+ * This module is for internal use only (hence the leading underscore in the name).
+ *
+ * The diff is computed using the algorithm from "An O(ND) Difference Algorithm and Its Variations"
+ * by Eugene W. Myers, which takes time proportional to the array lengths times the number of
+ * differences, so is fast for similar arrays.
+ */
+
+/**
+ * A region of the old array, `[oldStart, oldEnd)`, which should be replaced by the region
+ * `[newStart, newEnd)` of the new array. Hunks are returned in increasing order and don't overlap,
+ * so they may be applied in order: after applying all previous hunks, the region to replace starts
+ * at `newStart`.
+ */
+export interface IDiffHunk {
+  oldStart: number;
+  oldEnd: number;
+  newStart: number;
+  newEnd: number;
+}
+
+/**
+ * Returns the list of regions that differ between oldArr and newArr. Items are matched by the
+ * key returned by getKey(), or by identity if getKey is omitted. Items with matching keys but
+ * which are not identical are included into the differences, so that they get replaced.
+ */
+export function diffArrays<T>(oldArr: T[], newArr: T[], getKey?: (item: T) => unknown): IDiffHunk[] {
+  const oldKeys = getKey ? oldArr.map(getKey) : oldArr;
+  const newKeys = getKey ? newArr.map(getKey) : newArr;
+  const hunks: IDiffHunk[] = [];
+  let oldPos = 0;
+  let newPos = 0;
+  for (const [i, j] of _findMatches(oldKeys, newKeys)) {
+    if (oldArr[i] !== newArr[j]) { continue; }
+    if (i > oldPos || j > newPos) {
+      hunks.push({oldStart: oldPos, oldEnd: i, newStart: newPos, newEnd: j});
+    }
+    oldPos = i + 1;
+    newPos = j + 1;
+  }
+  if (oldArr.length > oldPos || newArr.length > newPos) {
+    hunks.push({oldStart: oldPos, oldEnd: oldArr.length, newStart: newPos, newEnd: newArr.length});
+  }
+  return hunks;
+}
+
+/**
+ * Returns pairs of indices [i, j] of matching items a[i] === b[j], in increasing order, forming a
+ * longest common subsequence of a and b.
+ */
+function _findMatches(a: unknown[], b: unknown[]): Array<[number, number]> {
+  // Common prefix and suffix are matched directly, and excluded from the main algorithm.
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+  const n = endA - start;
+  const m = endB - start;
+
+  const matches: Array<[number, number]> = [];
+  for (let i = 0; i < start; i++) {
+    matches.push([i, i]);
+  }
+
+  // v[offset + k] is the furthest x reached on diagonal k = x - y. For each number of edits d,
+  // trace[d] saves the relevant part of v as it was before that round, for backtracking.
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    let done = false;
+    for (let k = -d; k <= d; k += 2) {
+      let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) ?
+        v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[start + x] === b[start + y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        done = true;
+        break;
+      }
+    }
+    if (done) { break; }
+  }
+
+  // Backtrack from the end, collecting the diagonal moves, which are the matches.
+  const middle: Array<[number, number]> = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const prev = trace[d];
+    const k = x - y;
+    const prevK = (k === -d || (k !== d && prev[k - 1 + d + 1] < prev[k + 1 + d + 1])) ? k + 1 : k - 1;
+    const prevX = prev[prevK + d + 1];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      middle.push([start + x, start + y]);
+    }
+    x = prevX;
+    y = prevY;
+  }
+  while (x > 0 && y > 0) {
+    x--;
+    y--;
+    middle.push([start + x, start + y]);
+  }
+  for (let i = middle.length - 1; i >= 0; i--) {
+    matches.push(middle[i]);
+  }
+
+  for (let i = endA, j = endB; i < a.length; i++, j++) {
+    matches.push([i, j]);
+  }
+  return matches;
+}
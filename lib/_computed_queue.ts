@@ -14,8 +14,13 @@
  * later (computed with greater values depend on those with smaller values). When a computed needs
  * updating, it adds itself to the queue using enqueue() method. At the end of an observable.set()
  * call, or of bundleChanges() call, the queue gets processed in order of _priority.
+ *
+ * Optionally (see setComputeSchedule()), the processing may be deferred to a microtask or an
+ * animation frame, so that many changes in quick succession get processed together. Items marked
+ * as sync (see DepItem.setSync()) are still processed right away.
  */
 
+import {getDebugName} from './debugGraph';
 import {PriorityQueue} from './PriorityQueue';
 
 /**
@@ -29,18 +34,24 @@ export class DepItem {
 
   private _priority: number = 0;
   private _enqueued: boolean = false;
+  private _recomputes: number = 0;      // Number of recomputes in the current compute() call.
+  private _sync: boolean = false;
   private _callback: () => void;
   private _context?: object;
+  private _debugTarget?: object;
 
   // Order of creation, used for ordering items at same priority.
   private _creation: number = ++_nextCreationNum;
 
   /**
-   * Callback should call depItem.useDep(dep) for each DepInput it depends on.
+   * Callback should call depItem.useDep(dep) for each DepInput it depends on. If optDebugTarget
+   * is given, its debug name identifies this DepItem in traces and errors (otherwise optContext's
+   * is used).
    */
-  constructor(callback: () => void, optContext?: object) {
+  constructor(callback: () => void, optContext?: object, optDebugTarget?: object) {
     this._callback = callback;
     this._context = optContext;
+    this._debugTarget = optDebugTarget;
   }
 
   /**
@@ -62,13 +73,80 @@ export class DepItem {
     this._callback.call(this._context);
   }
 
+  /**
+   * Returns the object this DepItem is for, e.g. a Computed or a Subscription.
+   * @internal
+   */
+  public _getSource(): object|undefined {
+    return this._debugTarget || this._context;
+  }
+
+  /**
+   * Returns the debug name of this DepItem's target, or its class name and a creation number if
+   * it has none.
+   * @internal
+   */
+  public _label(): string {
+    const target = this._getSource();
+    return (target && getDebugName(target)) || `${target ? target.constructor.name : 'DepItem'}#${this._creation}`;
+  }
+
+  /**
+   * Describes this DepItem for a trace.
+   * @internal
+   */
+  public _traceItem(): IComputeTraceItem {
+    return {name: this._label(), priority: this._priority};
+  }
+
+  /**
+   * Sets the object whose debug name identifies this DepItem in traces and errors.
+   * @internal
+   */
+  public _setDebugTarget(target: object): void {
+    this._debugTarget = target;
+  }
+
+  /**
+   * Called by compute() when this DepItem is taken off the queue. Returns the number of times it
+   * was taken off the queue during the current compute() call, including this time.
+   * @internal
+   */
+  public _dequeue(): number {
+    this._enqueued = false;
+    return ++this._recomputes;
+  }
+
+  /**
+   * Called by compute() to take this DepItem off the queue without recomputing it, when stopping
+   * a runaway loop. It doesn't count as a recompute.
+   * @internal
+   */
+  public _drop(): void {
+    this._enqueued = false;
+  }
+
+  /**
+   * Marks this DepItem as one to recompute right away on changes, even when recomputes are
+   * otherwise deferred by setComputeSchedule().
+   */
+  public setSync(sync: boolean): void {
+    this._sync = sync;
+  }
+
   /**
    * Add this DepItem to the queue, to be recomputed when the time is right.
    */
   public enqueue(): void {
     if (!this._enqueued) {
       this._enqueued = true;
-      queue.push(this);
+      if (_scheduler && !this._sync && _flushDepth === 0) {
+        _deferred.push(this);
+        _scheduleFlush(_scheduler);
+      } else {
+        queue.push(this);
+      }
+      if (_trace) { _trace.enqueued.push(this._traceItem()); }
     }
   }
 }
@@ -76,6 +154,9 @@ export class DepItem {
 // The main compute queue.
 const queue = new PriorityQueue<DepItem>(DepItem.isPrioritySmaller);
 
+// Items waiting for a scheduled flush, when recomputes are deferred.
+const _deferred = new PriorityQueue<DepItem>(DepItem.isPrioritySmaller);
+
 // Counter for creation order, used to create a stable ordering of DepItems at same priority.
 let _nextCreationNum = 0;
 
@@ -83,9 +164,237 @@ let _nextCreationNum = 0;
 // variable in compute(), but is made global to minimize allocations.
 const _seen: any[] = [];
 
+/**
+ * The maximum number of times an item may be recomputed in a single call to compute(). An item
+ * gets recomputed again when a dependency changes after it was recomputed, which normally settles
+ * quickly. Exceeding this means a dependency cycle, or a subscription that keeps setting an
+ * observable it depends on.
+ */
+const MAX_RECOMPUTES = 100;
+
 // Counter used for bundling multiple calls to compute() into one.
 let bundleDepth = 0;
 
+/**
+ * Describes a DepItem in a trace of a compute cycle. The `ms` field is only set for recomputed
+ * items, and is the time the recompute took, in milliseconds.
+ */
+export interface IComputeTraceItem {
+  name: string;
+  priority: number;
+  ms?: number;
+}
+
+/**
+ * Describes one compute cycle, i.e. the changes made by a single `set()` call or within a single
+ * `bundleChanges()` call, and the recomputes they triggered.
+ */
+export interface IComputeTrace {
+  set: string[];                      // Names of the observables that were set.
+  enqueued: IComputeTraceItem[];      // Items in the order they were enqueued.
+  recomputed: IComputeTraceItem[];    // Items in the order they were recomputed.
+  ms: number;                         // Total time spent recomputing.
+}
+
+export type ComputeTraceLogger = (trace: IComputeTrace) => void;
+
+/**
+ * Handles an error thrown while recomputing a computed or a subscription in response to a change.
+ * The source is the `Computed`, `PureComputed`, or `Subscription` whose callback threw. It's
+ * undefined for errors with no such source, e.g. a rejected promise in `domAsync()` that nothing
+ * else handles.
+ */
+export type ComputeErrorHandler = (error: unknown, source: object|undefined) => void;
+
+// The global handler for errors in recomputes, if one is set.
+let _errorHandler: ComputeErrorHandler|null = null;
+
+/**
+ * Sets a global handler for errors thrown by computeds and subscriptions when they get
+ * recomputed in response to a change. An error in one of them doesn't prevent the others from
+ * getting updated. Once all are updated, each error is passed to the handler. Without a handler,
+ * the first error is rethrown instead, so that it propagates to the caller of `set()` or
+ * `bundleChanges()`. Pass in `null` to unset the handler.
+ */
+export function setComputeErrorHandler(handler: ComputeErrorHandler|null): void {
+  _errorHandler = handler;
+}
+
+// When tracing is on, the logger to call, and the trace for the current cycle.
+let _traceLogger: ComputeTraceLogger|null = null;
+let _trace: IComputeTrace|null = null;
+
+// Whether compute() is in the middle of recomputing items; observables set during this time are
+// not reported in traces, since they are mostly computeds updating their values.
+let _computing = false;
+
+/**
+ * Turns on tracing of compute cycles, to help find out what gets recomputed on a change, and how
+ * long it takes. At the end of each cycle, logger gets called with an `IComputeTrace` object. If
+ * logger is omitted, the trace is logged to the console using `formatComputeTrace()`. Pass in
+ * `null` to turn tracing off.
+ *
+ * Names in the trace are those set with `setDebugName()`, or the optional name argument of
+ * `Observable.create()`, `Computed.create()`, or `subscribe()`.
+ */
+export function setComputeTrace(logger: ComputeTraceLogger|null = _logTrace): void {
+  _traceLogger = logger;
+  _trace = logger ? _newTrace() : null;
+}
+
+/**
+ * Formats a trace as a human-readable string, e.g.
+ * ```
+ * set amount, discount: enqueued 2, recomputed 2 in 0.12ms
+ *   [1] total 0.08ms
+ *   [2] Subscription#12 0.01ms
+ * ```
+ */
+export function formatComputeTrace(trace: IComputeTrace): string {
+  const lines = [`set ${trace.set.join(', ') || '(none)'}: ` +
+    `enqueued ${trace.enqueued.length}, recomputed ${trace.recomputed.length} in ${_formatMs(trace.ms)}`];
+  for (const item of trace.recomputed) {
+    lines.push(`  [${item.priority}] ${item.name} ${_formatMs(item.ms!)}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Records in the trace of the current cycle that obs got set, when tracing is on.
+ * @internal
+ */
+export function _traceSet(obs: object): void {
+  if (_trace && !_computing) {
+    _trace.set.push(getDebugName(obs) || obs.constructor.name);
+  }
+}
+
+function _newTrace(): IComputeTrace {
+  return {set: [], enqueued: [], recomputed: [], ms: 0};
+}
+
+function _logTrace(trace: IComputeTrace) {
+  console.log(formatComputeTrace(trace));
+}
+
+function _formatMs(ms: number): string {
+  return `${ms.toFixed(2)}ms`;
+}
+
+// Recomputes an item, recording it in the trace.
+function _tracedRecompute(item: DepItem, trace: IComputeTrace) {
+  const traceItem = item._traceItem();
+  const start = performance.now();
+  try {
+    item.recompute();
+  } finally {
+    traceItem.ms = performance.now() - start;
+    trace.recomputed.push(traceItem);
+  }
+}
+
+// At the end of a cycle, passes the trace to the logger, and starts a new one. While recomputes
+// are deferred, the cycle continues until the flush.
+function _flushTrace() {
+  const trace = _trace;
+  if (trace && _deferred.size === 0 && (trace.set.length > 0 || trace.enqueued.length > 0)) {
+    _trace = _newTrace();
+    _traceLogger!(trace);
+  }
+}
+
+/**
+ * When to recompute computeds and subscriptions after a change:
+ *  - `'sync'`: right away, at the end of `set()` or `bundleChanges()` (the default).
+ *  - `'microtask'`: in a microtask, so that all changes made synchronously get processed together.
+ *  - `'animationFrame'`: before the next animation frame, using `requestAnimationFrame()` (or a
+ *    timeout where it's not available).
+ *  - A function, which gets called with a `flush` callback and should arrange to call it later.
+ */
+export type ComputeSchedule = 'sync' | 'microtask' | 'animationFrame' | ((flush: () => void) => void);
+
+// How to schedule a flush of deferred items, or null in 'sync' mode.
+let _scheduler: ((flush: () => void) => void)|null = null;
+
+// Whether a flush of deferred items has been scheduled.
+let _flushScheduled = false;
+
+// While positive, items get recomputed right away, so that flushSync() processes everything that
+// the deferred items trigger.
+let _flushDepth = 0;
+
+/**
+ * Sets when computeds and subscriptions get recomputed after a change (see `ComputeSchedule`).
+ * With a deferred schedule, an observable's new value is available immediately, but computeds
+ * that depend on it keep their old values until the scheduled flush, or until `flushSync()` is
+ * called. This helps when observables change at a high rate, e.g. on mouse moves, to avoid
+ * recomputing everything that depends on them after each change.
+ *
+ * Subscriptions created with the `sync` option still get called right away. Errors in deferred
+ * recomputes are reported as described in `setComputeErrorHandler()`; without a handler, they get
+ * thrown from the scheduled callback.
+ *
+ * Switching back to `'sync'` recomputes anything that's pending.
+ */
+export function setComputeSchedule(schedule: ComputeSchedule): void {
+  _scheduler = (schedule === 'sync') ? null :
+    (schedule === 'microtask') ? _scheduleMicrotask :
+    (schedule === 'animationFrame') ? _scheduleAnimationFrame :
+    schedule;
+  // A flush scheduled with the previous schedule may never run, so don't wait for it.
+  _flushScheduled = false;
+  if (!_scheduler) {
+    flushSync();
+  } else if (_deferred.size > 0) {
+    _scheduleFlush(_scheduler);
+  }
+}
+
+/**
+ * Recomputes right away the computeds and subscriptions that are waiting for a scheduled
+ * recompute (see `setComputeSchedule()`), along with anything that depends on them. It's useful
+ * when up-to-date values are needed before the scheduled time, e.g. in an event handler.
+ */
+export function flushSync(): void {
+  _flushDepth++;
+  try {
+    while (_deferred.size > 0) { queue.push(_deferred.pop()!); }
+    compute();
+  } finally {
+    _flushDepth--;
+  }
+}
+
+function _scheduleFlush(scheduler: (flush: () => void) => void) {
+  if (!_flushScheduled) {
+    _flushScheduled = true;
+    scheduler(_runScheduledFlush);
+  }
+}
+
+function _runScheduledFlush() {
+  _flushScheduled = false;
+  flushSync();
+}
+
+function _scheduleMicrotask(flush: () => void) {
+  Promise.resolve().then(flush).catch(_throwLater);
+}
+
+function _scheduleAnimationFrame(flush: () => void) {
+  if (typeof requestAnimationFrame === 'function') {
+    requestAnimationFrame(flush);
+  } else {
+    setTimeout(flush, 16);
+  }
+}
+
+// An error in a microtask would otherwise be an unhandled rejection; rethrow it as an uncaught
+// exception, which is what it would be with the other schedules.
+function _throwLater(error: unknown) {
+  setTimeout(() => { throw error; }, 0);
+}
+
 /**
  * Exposed for unittests. Returns the internal priority value of an observable.
  */
@@ -96,30 +405,87 @@ export function _getPriority(obs: any): number {
 
 /**
  * Update any computed observables that need updating. The update is deferred if we are currently
- * in the middle of a bundle. This is called automatically whenever you set an observable, and
- * there should be no need to ever call this by users of the library.
+ * in the middle of a bundle (and items may be waiting for a scheduled flush; see flushSync()).
+ * This is called automatically whenever you set an observable, and there should be no need to
+ * ever call this by users of the library.
  */
 export function compute(): void {
+  let errors: Array<[unknown, DepItem]>|undefined;
   if (bundleDepth === 0 && queue.size > 0) {
     // Prevent nested compute() calls, which are unnecessary and can cause deep recursion stack.
     bundleDepth++;
     try {
+      _computing = true;
+      const trace = _trace;
+      const start = trace ? performance.now() : 0;
       // We reuse _seen array to minimize allocations, but always leave it empty.
       do {
         const item = queue.pop()!;
-        _seen.push(item);
-        item.recompute();
+        // Once popped, an item may be enqueued again if its dependencies change after it's
+        // recomputed; MAX_RECOMPUTES protects against infinite loops.
+        const recomputes = item._dequeue();
+        if (recomputes === 1) {
+          _seen.push(item);
+        } else if (recomputes > MAX_RECOMPUTES) {
+          // This empties the queue; the error is reported along with any others collected so far.
+          (errors || (errors = [])).push([_cycleError(), item]);
+          break;
+        }
+        // An error in one item is reported once all items are recomputed, so it doesn't leave
+        // the rest stale.
+        try {
+          if (trace) {
+            _tracedRecompute(item, trace);
+          } else {
+            item.recompute();
+          }
+        } catch (e) {
+          (errors || (errors = [])).push([e, item]);
+        }
       } while (queue.size > 0);
+      if (trace) { trace.ms += performance.now() - start; }
     } finally {
-      // We delay the unsetting of _enqueued flag to here, to protect against infinite loops when
-      // a change to a computed causes it to get enqueued again.
+      _computing = false;
       for (const item of _seen) {
-        item._enqueued = false;
+        item._recomputes = 0;
       }
       _seen.length = 0;
       bundleDepth--;
     }
   }
+  if (bundleDepth === 0) { _flushTrace(); }
+  if (errors) { _reportErrors(errors); }
+}
+
+// Passes errors from recomputes to the global error handler, or rethrows the first one if there
+// is no handler.
+function _reportErrors(errors: Array<[unknown, DepItem]>) {
+  if (!_errorHandler) { throw errors[0][0]; }
+  for (const [error, item] of errors) {
+    _errorHandler(error, item._getSource());
+  }
+}
+
+/**
+ * Passes an error that has no caller to propagate to (e.g. a promise rejection) to the global
+ * error handler, or logs it with console.error() if there is no handler.
+ * @internal
+ */
+export function _reportUnhandledError(error: unknown): void {
+  if (_errorHandler) {
+    _errorHandler(error, undefined);
+  } else {
+    console.error(error);
+  }
+}
+
+// Creates the error for a runaway loop, naming the items that got recomputed repeatedly. It also
+// empties the queue, so that the loop doesn't resume with the next change.
+function _cycleError(): Error {
+  while (queue.size > 0) { queue.pop()!._drop(); }
+  const names = _seen.filter((item) => item._recomputes > 1).map((item) => item._label());
+  return new Error(`Dependency cycle: recomputed more than ${MAX_RECOMPUTES} times in one update: ` +
+    names.join(', '));
 }
 
 /**
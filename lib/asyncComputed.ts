@@ -0,0 +1,99 @@
+import {Disposable, IDisposableOwnerT} from './dispose';
+import {bundleChanges, Observable} from './observable';
+import {subscribe, UseCB} from './subscribe';
+
+/**
+ * The state of an `AsyncComputed`: whether the promise for the latest evaluation is still
+ * outstanding, or whether it got resolved or rejected.
+ */
+export type AsyncStatus = 'pending' | 'ready' | 'error';
+
+/**
+ * `AsyncComputed` calls an async callback whenever its dependencies change, and reflects the
+ * result of the latest call in observables:
+ *  - `value`: the value the latest promise resolved to (undefined until the first one resolves).
+ *  - `status`: one of `'pending'`, `'ready'`, or `'error'`.
+ *  - `error`: the reason the latest promise got rejected, or undefined if it didn't.
+ *
+ * The callback gets called with `(use, signal)`. As for a `Computed`, it should call `use(obs)` to
+ * depend on an observable, but only calls made before its first `await` are noticed. When any
+ * dependency changes, the `signal` given to the previous call gets aborted (so it may be passed to
+ * `fetch()` to cancel a request), and the callback gets called again. The outcome of a call which
+ * is no longer the latest is ignored.
+ * ```ts
+ * const user = asyncComputed(owner, async (use, signal) => {
+ *   const resp = await fetch(`/users/${use(userId)}`, {signal});
+ *   return resp.json();
+ * });
+ * dom.maybe(user.value, (u) => dom('div', u.name));
+ * ```
+ *
+ * While a new call is pending, `value` keeps the previous result, and `error` keeps the previous
+ * error. On disposal, the pending call's signal gets aborted, and it no longer affects anything.
+ */
+export class AsyncComputed<T> extends Disposable {
+  public readonly value: Observable<T|undefined>;
+  public readonly status: Observable<AsyncStatus>;
+  public readonly error: Observable<unknown>;
+
+  private _controller?: AbortController;
+  private _callNum: number = 0;
+
+  constructor(callback: (use: UseCB, signal: AbortSignal) => Promise<T>) {
+    super();
+    this.value = Observable.create<T|undefined>(this, undefined);
+    this.status = Observable.create<AsyncStatus>(this, 'pending');
+    this.error = Observable.create<unknown>(this, undefined);
+    this.onDispose(this._abort, this);
+    this.autoDispose(subscribe((use) => this._evaluate(use, callback)));
+  }
+
+  private _evaluate(use: UseCB, callback: (use: UseCB, signal: AbortSignal) => Promise<T>): void {
+    this._abort();
+    const controller = this._controller = new AbortController();
+    const callNum = ++this._callNum;
+    let promise: Promise<T>;
+    try {
+      promise = Promise.resolve(callback(use, controller.signal));
+    } catch (e) {
+      promise = Promise.reject(e);
+    }
+    this.status.set('pending');
+    promise.then(
+      (value) => this._settle(callNum, () => {
+        this.value.set(value);
+        this.error.set(undefined);
+        this.status.set('ready');
+      }),
+      (err) => this._settle(callNum, () => {
+        this.error.set(err);
+        this.status.set('error');
+      }),
+    );
+  }
+
+  // Applies the outcome of a call, unless it's stale (or this AsyncComputed is disposed).
+  private _settle(callNum: number, applyFunc: () => void) {
+    if (callNum !== this._callNum || this.isDisposed()) { return; }
+    this._controller = undefined;
+    bundleChanges(applyFunc);
+  }
+
+  private _abort() {
+    if (this._controller) {
+      this._controller.abort();
+      this._controller = undefined;
+    }
+  }
+}
+
+/**
+ * Creates a new `AsyncComputed`, owned by the given owner. See [`AsyncComputed`](#AsyncComputed)
+ * for documentation.
+ */
+export function asyncComputed<T>(
+  owner: IDisposableOwnerT<AsyncComputed<T>>|null,
+  callback: (use: UseCB, signal: AbortSignal) => Promise<T>,
+): AsyncComputed<T> {
+  return AsyncComputed.create(owner, callback) as AsyncComputed<T>;
+}
@@ -1,6 +1,6 @@
 import {DepItem} from './_computed_queue';
 import {IDisposableOwnerT, setDisposeOwner} from './dispose';
-import {BaseObservable as Obs, Observable} from './observable';
+import {applyObservableOptions, BaseObservable as Obs, IObservableOptions, Observable} from './observable';
 import {ISubscribable, Subscription, UseCBOwner as UseCB} from './subscribe';
 
 function _noWrite(): never {
@@ -10,6 +10,122 @@ function _noWrite(): never {
 /** @internal */
 type Owner<T> = IDisposableOwnerT<Computed<T>>|null;
 
+/**
+ * Options for creating a `Computed` or a `PureComputed`. A string may be given in their place, as
+ * a shorthand for `{name}`. In addition to `IObservableOptions` (`name` and `equals`):
+ *  - `captureErrors`: if true, errors thrown by the callback are captured rather than propagated
+ *    (see [`BaseComputed`](#BaseComputed)).
+ */
+export interface IComputedOptions<T = any> extends IObservableOptions<T> {
+  captureErrors?: boolean;
+}
+
+/**
+ * If the last of args is an options argument (i.e. not the callback), removes and returns it,
+ * converting a name to an `IComputedOptions` object.
+ * @internal
+ */
+export function popComputedOptions(args: any[]): IComputedOptions {
+  const last = args[args.length - 1];
+  if (typeof last === 'function') { return {}; }
+  args.pop();
+  return typeof last === 'string' ? {name: last} : last;
+}
+
+/**
+ * Base class for `Computed` and `PureComputed`, which keeps track of errors thrown by their
+ * callbacks. When the callback throws, the computed keeps its previous value, and the error is
+ * available as `getError()`, and as the value of the `error` observable. Once the callback
+ * succeeds again, the error is reset to undefined.
+ *
+ * By default, the error also propagates: to the caller when the computed is evaluated directly,
+ * and to the global error handler when it's recomputed in response to a change (see
+ * `setComputeErrorHandler()`).
+ *
+ * A computed created with the `captureErrors` option captures errors instead. Its `get()` method
+ * rethrows the last error, so that dependents see the error when they `use()` the computed. This
+ * is useful with the `error` observable to show an error instead of stale content:
+ * ```ts
+ * const data = Computed.create(null, use => parse(use(text)), {captureErrors: true});
+ * dom.domComputed(use => use(data.error) ? dom('div', 'Invalid data') : buildView(use(data)));
+ * ```
+ */
+export abstract class BaseComputed<T> extends Observable<T> {
+  private _error: unknown = undefined;
+  private _errorObs?: Observable<unknown>;
+  private readonly _captureErrors: boolean;
+
+  constructor(value: T, options: IComputedOptions<T>) {
+    super(value);
+    this._captureErrors = Boolean(options.captureErrors);
+    applyObservableOptions(this, options);
+  }
+
+  /**
+   * An observable whose value is the error thrown by the latest evaluation of the callback, or
+   * undefined if it succeeded.
+   */
+  public get error(): Observable<unknown> {
+    if (!this._errorObs) {
+      this._errorObs = new Observable<unknown>(this._error);
+    }
+    return this._errorObs;
+  }
+
+  /**
+   * Returns the error thrown by the latest evaluation of the callback, or undefined if it
+   * succeeded.
+   */
+  public getError(): unknown {
+    return this._error;
+  }
+
+  /**
+   * Returns the value of the computed. If it captures errors, and the latest evaluation of the
+   * callback threw, rethrows that error instead.
+   */
+  public get(): T {
+    if (this._captureErrors && this._error !== undefined) { throw this._error; }
+    return super.get();
+  }
+
+  public dispose() {
+    if (this._errorObs) { this._errorObs.dispose(); }
+    super.dispose();
+  }
+
+  /**
+   * Sets the value to the result of calling the callback, and keeps track of any error it throws.
+   * @internal
+   */
+  protected _setFromCallback(callback: () => T): void {
+    let value: T;
+    try {
+      value = callback();
+    } catch (e) {
+      this._setError(e);
+      if (!this._captureErrors) { throw e; }
+      // Tell dependents to re-read the value, which will now throw.
+      this._notify();
+      return;
+    }
+    if (this._error !== undefined) {
+      this._setError(undefined);
+      if (this._captureErrors && this._isEqual(value)) {
+        // The value didn't change, but dependents saw the error, so need to re-read it.
+        this._notify();
+        return;
+      }
+    }
+    super.set(value);
+  }
+
+  private _setError(error: unknown) {
+    this._error = error;
+    if (this._errorObs) { this._errorObs.set(error); }
+  }
+}
+
 /**
  * `Computed` implements a computed observable, whose value depends on other observables and gets
  * recalculated automatically when they change.
@@ -52,7 +168,7 @@ type Owner<T> = IDisposableOwnerT<Computed<T>>|null;
  * owned value. Note that only the pattern above works, i.e. `use.owner` may only be used to take
  * ownership of the same disposable that the callback returns.
  */
-export class Computed<T> extends Observable<T> {
+export class Computed<T> extends BaseComputed<T> {
   /**
    * Creates a new Computed, owned by the given owner.
    * @param owner - Object to own this Computed, or null to handle disposal manually.
@@ -61,29 +177,31 @@ export class Computed<T> extends Observable<T> {
    * @param callback - Read callback that will be called with `(use, ...values)`,
    *    i.e. the `use` function and values for all of the `...observables`. The callback is called
    *    immediately and whenever any dependency changes.
+   * @param options - Optional `IComputedOptions`, or a name to identify this Computed when debugging.
    * @returns The newly created `Computed` observable.
    */
   // Still need repetitive declarations to support varargs that are not the final argument.
   public static create<T>(
-    owner: Owner<T>, cb: (use: UseCB) => T): Computed<T>;
+    owner: Owner<T>, cb: (use: UseCB) => T, options?: string|IComputedOptions<T>): Computed<T>;
   public static create<T, A>(
     owner: Owner<T>, a: Obs<A>,
-    cb: (use: UseCB, a: A) => T): Computed<T>;
+    cb: (use: UseCB, a: A) => T, options?: string|IComputedOptions<T>): Computed<T>;
   public static create<T, A, B>(
     owner: Owner<T>, a: Obs<A>, b: Obs<B>,
-    cb: (use: UseCB, a: A, b: B) => T): Computed<T>;
+    cb: (use: UseCB, a: A, b: B) => T, options?: string|IComputedOptions<T>): Computed<T>;
   public static create<T, A, B, C>(
     owner: Owner<T>, a: Obs<A>, b: Obs<B>, c: Obs<C>,
-    cb: (use: UseCB, a: A, b: B, c: C) => T): Computed<T>;
+    cb: (use: UseCB, a: A, b: B, c: C) => T, options?: string|IComputedOptions<T>): Computed<T>;
   public static create<T, A, B, C, D>(
     owner: Owner<T>, a: Obs<A>, b: Obs<B>, c: Obs<C>, d: Obs<D>,
-    cb: (use: UseCB, a: A, b: B, c: C, d: D) => T): Computed<T>;
+    cb: (use: UseCB, a: A, b: B, c: C, d: D) => T, options?: string|IComputedOptions<T>): Computed<T>;
   public static create<T, A, B, C, D, E>(
     owner: Owner<T>, a: Obs<A>, b: Obs<B>, c: Obs<C>, d: Obs<D>, e: Obs<E>,
-    cb: (use: UseCB, a: A, b: B, c: C, d: D, e: E) => T): Computed<T>;
+    cb: (use: UseCB, a: A, b: B, c: C, d: D, e: E) => T, options?: string|IComputedOptions<T>): Computed<T>;
   public static create<T>(owner: IDisposableOwnerT<Computed<T>>|null, ...args: any[]): Computed<T> {
+    const options = popComputedOptions(args);
     const readCb = args.pop();
-    return setDisposeOwner(owner, new Computed<T>(readCb, args));
+    return setDisposeOwner(owner, new Computed<T>(readCb, args, options));
   }
 
   private _callback: (use: UseCB, ...args: any[]) => T;
@@ -91,10 +209,12 @@ export class Computed<T> extends Observable<T> {
   private _sub: Subscription;
 
   // Internal constructor for a Computed observable. You should use computed() function instead.
-  constructor(callback: (use: UseCB, ...args: any[]) => T, dependencies: ISubscribable[]) {
+  constructor(callback: (use: UseCB, ...args: any[]) => T, dependencies: ISubscribable[],
+    options: IComputedOptions = {},
+  ) {
     // At initialization we force an undefined value even though it's not of type T: it gets set
     // to a proper value during the creation of new Subscription, which calls this._read.
-    super(undefined as any);
+    super(undefined as any, options);
     this._callback = callback;
     this._write = _noWrite;
     this._sub = new Subscription(this._read.bind(this), dependencies, this);
@@ -133,7 +253,7 @@ export class Computed<T> extends Observable<T> {
   }
 
   private _read(use: any, ...args: any[]): void {
-    super.set(this._callback(use as UseCB, ...args));
+    this._setFromCallback(() => this._callback(use as UseCB, ...args));
   }
 }
 
@@ -145,33 +265,35 @@ export class Computed<T> extends Observable<T> {
  * @param readCallback - Read callback that will be called with `(use, ...values)`,
  *    i.e. the `use` function and values for all of the `...observables`. The callback is called
  *    immediately and whenever any dependency changes.
+ * @param options - Optional `IComputedOptions`, or a name to identify this Computed when debugging.
  * @returns The newly created `Computed` observable.
  */
-export function computed<T>(cb: (use: UseCB) => T): Computed<T>;
+export function computed<T>(cb: (use: UseCB) => T, options?: string|IComputedOptions<T>): Computed<T>;
 
 export function computed<T, A>(
   a: Obs<A>,
-  cb: (use: UseCB, a: A) => T): Computed<T>;
+  cb: (use: UseCB, a: A) => T, options?: string|IComputedOptions<T>): Computed<T>;
 
 export function computed<T, A, B>(
   a: Obs<A>, b: Obs<B>,
-  cb: (use: UseCB, a: A, b: B) => T): Computed<T>;
+  cb: (use: UseCB, a: A, b: B) => T, options?: string|IComputedOptions<T>): Computed<T>;
 
 export function computed<T, A, B, C>(
   a: Obs<A>, b: Obs<B>, c: Obs<C>,
-  cb: (use: UseCB, a: A, b: B, c: C) => T): Computed<T>;
+  cb: (use: UseCB, a: A, b: B, c: C) => T, options?: string|IComputedOptions<T>): Computed<T>;
 
 export function computed<T, A, B, C, D>(
   a: Obs<A>, b: Obs<B>, c: Obs<C>, d: Obs<D>,
-  cb: (use: UseCB, a: A, b: B, c: C, d: D) => T): Computed<T>;
+  cb: (use: UseCB, a: A, b: B, c: C, d: D) => T, options?: string|IComputedOptions<T>): Computed<T>;
 
 export function computed<T, A, B, C, D, E>(
   a: Obs<A>, b: Obs<B>, c: Obs<C>, d: Obs<D>, e: Obs<E>,
-  cb: (use: UseCB, a: A, b: B, c: C, d: D, e: E) => T): Computed<T>;
+  cb: (use: UseCB, a: A, b: B, c: C, d: D, e: E) => T, options?: string|IComputedOptions<T>): Computed<T>;
 
 export function computed(...args: any[]): Computed<any> {
+  const options = popComputedOptions(args);
   const readCb = args.pop();
-  return new Computed<any>(readCb, args);
+  return new Computed<any>(readCb, args, options);
 }
 
 // TODO Consider implementing .singleUse() method.
@@ -0,0 +1,204 @@
+/**
+ * This module offers an opt-in registry of observables, computeds, and subscriptions, to help
+ * understand why something gets recomputed. Once enabled with `enableDebugGraph()`, each newly
+ * created observable, computed and subscription gets recorded along with its dependencies and
+ * the number of times it got recomputed. The graph may be inspected with `getDebugGraph()`, or
+ * dumped as JSON or as Graphviz DOT.
+ *
+ * Objects created while the registry is disabled are not recorded, except as needed to describe
+ * the dependencies of recorded objects. Disposed objects are removed from the registry.
+ *
+ * Names given with `setDebugName()` appear in the output. They are kept (weakly) even while the
+ * registry is disabled.
+ */
+
+/**
+ * The kind of an object in the debug graph. A `'computed'` is an observable with its own
+ * subscription to dependencies (e.g. a `Computed` or an active `PureComputed`).
+ */
+export type DebugNodeKind = 'observable' | 'computed' | 'subscription';
+
+/**
+ * Describes an object in the debug graph.
+ */
+export interface IDebugNode {
+  id: number;
+  name?: string;
+  kind: DebugNodeKind;
+  deps: number[];           // Ids of the nodes this one depends on.
+  dependents: number[];     // Ids of the nodes which depend on this one.
+  recomputes: number;       // Number of times this node's callback got evaluated.
+}
+
+/**
+ * What a Subscription provides to the registry to describe its dependencies.
+ * @internal
+ */
+export interface IDebugDepSource {
+  _getDebugDeps(): object[];
+}
+
+interface INodeRecord {
+  id: number;
+  kind: DebugNodeKind;
+  source?: IDebugDepSource;
+  recomputes: number;
+}
+
+let _nodes: Map<object, INodeRecord>|null = null;
+let _sources = new Map<IDebugDepSource, object>();     // Maps a subscription to its node.
+let _nextId = 1;
+const _names = new WeakMap<object, string>();
+
+/**
+ * Starts recording observables, computeds, and subscriptions created from now on.
+ */
+export function enableDebugGraph(): void {
+  if (!_nodes) { _nodes = new Map(); }
+}
+
+/**
+ * Stops recording, and clears the registry.
+ */
+export function disableDebugGraph(): void {
+  _nodes = null;
+  _sources = new Map();
+}
+
+/**
+ * Returns whether the debug registry is enabled.
+ */
+export function isDebugGraphEnabled(): boolean {
+  return Boolean(_nodes);
+}
+
+/**
+ * Sets a name for an observable, computed, or subscription, to use for debugging.
+ */
+export function setDebugName(obj: object, name: string): void {
+  _names.set(obj, name);
+}
+
+/**
+ * Returns the name set with `setDebugName()`, if any.
+ */
+export function getDebugName(obj: object): string|undefined {
+  return _names.get(obj);
+}
+
+/**
+ * Records obj as a node of the given kind. If source is given, it's the subscription whose
+ * dependencies are the node's dependencies (the node may be the subscription itself).
+ * @internal
+ */
+export function _debugRegister(obj: object, kind: DebugNodeKind, source?: IDebugDepSource): void {
+  if (!_nodes) { return; }
+  const record = _getRecord(obj, kind);
+  record.kind = kind;
+  if (source) {
+    // A subscription that got registered on its own before being adopted (e.g. by a
+    // PureComputed) is no longer a separate node.
+    const prevObj = _sources.get(source);
+    const prevRecord = prevObj === source && prevObj !== obj ? _nodes.get(source) : undefined;
+    if (prevRecord) {
+      record.recomputes += prevRecord.recomputes;
+      _nodes.delete(source);
+    }
+    record.source = source;
+    _sources.set(source, obj);
+  }
+}
+
+/**
+ * Removes obj (an observable or a subscription) from the registry.
+ * @internal
+ */
+export function _debugUnregister(obj: object): void {
+  if (!_nodes) { return; }
+  const nodeObj = _sources.get(obj as IDebugDepSource);
+  if (nodeObj) {
+    _sources.delete(obj as IDebugDepSource);
+    const record = _nodes.get(nodeObj);
+    if (record && record.source === obj) { record.source = undefined; }
+  }
+  _nodes.delete(obj);
+}
+
+/**
+ * Counts an evaluation of the given subscription.
+ * @internal
+ */
+export function _debugRecomputed(source: IDebugDepSource): void {
+  if (!_nodes) { return; }
+  const nodeObj = _sources.get(source);
+  const record = nodeObj && _nodes.get(nodeObj);
+  if (record) { record.recomputes++; }
+}
+
+/**
+ * Returns the list of recorded nodes, in order of creation, with dependencies and dependents
+ * identified by their ids.
+ */
+export function getDebugGraph(): IDebugNode[] {
+  if (!_nodes) { return []; }
+  const result = new Map<object, IDebugNode>();
+  const getNode = (obj: object) => {
+    const record = _getRecord(obj, 'observable');
+    let node = result.get(obj);
+    if (!node) {
+      node = {id: record.id, kind: record.kind, deps: [], dependents: [], recomputes: record.recomputes};
+      const name = _names.get(obj);
+      if (name !== undefined) { node.name = name; }
+      result.set(obj, node);
+    }
+    return node;
+  };
+  for (const [obj, record] of [..._nodes]) {
+    const node = getNode(obj);
+    for (const dep of (record.source ? record.source._getDebugDeps() : [])) {
+      const depNode = getNode(dep);
+      node.deps.push(depNode.id);
+      depNode.dependents.push(node.id);
+    }
+  }
+  return [...result.values()].sort((a, b) => a.id - b.id);
+}
+
+/**
+ * Returns the debug graph as a JSON string.
+ */
+export function debugGraphToJSON(): string {
+  return JSON.stringify(getDebugGraph(), null, 2);
+}
+
+/**
+ * Returns the debug graph in Graphviz DOT format. Edges point from a dependency to its dependent,
+ * i.e. in the direction in which changes propagate. Each node's label includes its recompute
+ * count in parentheses.
+ */
+export function debugGraphToDot(): string {
+  const shapes: {[kind in DebugNodeKind]: string} = {observable: 'ellipse', computed: 'box', subscription: 'diamond'};
+  const lines = ['digraph grainjs {'];
+  const nodes = getDebugGraph();
+  for (const node of nodes) {
+    const label = `${node.name === undefined ? node.kind : node.name} #${node.id} (${node.recomputes})`;
+    lines.push(`  n${node.id} [label=${JSON.stringify(label)}, shape=${shapes[node.kind]}];`);
+  }
+  for (const node of nodes) {
+    for (const dep of node.deps) {
+      lines.push(`  n${dep} -> n${node.id};`);
+    }
+  }
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+// Returns the record for obj, creating one with the given kind if it doesn't exist.
+function _getRecord(obj: object, kind: DebugNodeKind): INodeRecord {
+  let record = _nodes!.get(obj);
+  if (!record) {
+    record = {id: _nextId++, kind, recomputes: 0};
+    _nodes!.set(obj, record);
+  }
+  return record;
+}
@@ -11,6 +11,7 @@ import * as _domComponent from './domComponent';
 import * as _domComputed from './domComputed';
 import * as _domDispose from './domDispose';
 import * as _domForEach from './domForEach';
+import * as _domHydrate from './domHydrate';
 import * as _domImpl from './domImpl';
 import * as _domMethods from './domMethods';
 
@@ -103,8 +104,14 @@ export namespace dom {      // eslint-disable-line @typescript-eslint/no-namespa
   export const domComputedOwned = _domComputed.domComputedOwned;
   export const maybe           = _domComputed.maybe;
   export const maybeOwned      = _domComputed.maybeOwned;
+  export const domAsync        = _domComputed.domAsync;
+  export const errorBoundary   = _domComputed.errorBoundary;
 
   export const forEach         = _domForEach.forEach;
+  export const forEachMap      = _domForEach.forEachMap;
+
+  export const hydrate         = _domHydrate.hydrate;
+  export const renderForHydration = _domHydrate.renderForHydration;
 
   export const create          = _domComponent.create;
 
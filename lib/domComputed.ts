@@ -1,7 +1,11 @@
+import {_reportUnhandledError, DepItem} from './_computed_queue';
+import {AsyncComputed} from './asyncComputed';
 import {BindableValue, subscribeElem} from './binding';
 import {Holder, MultiHolder} from './dispose';
 import {autoDisposeElem, domDispose} from './domDispose';
+import {_createMarkers, _hydrateContent} from './domHydrate';
 import {DomArg, DomMethod, frag} from './domImpl';
+import {bundleChanges} from './observable';
 
 // Use the browser globals in a way that allows replacing them with mocks in tests.
 import {G} from './browserGlobals';
@@ -22,6 +26,8 @@ export interface IDomContentsArray extends Array<DomContents> {}
 export function replaceContent(nodeBefore: Node, nodeAfter: Node, content: DomContents): void {
   const elem = nodeBefore.parentNode;
   if (elem) {
+    // When hydrating server-rendered DOM, the existing content is kept and only checked.
+    if (_hydrateContent(nodeBefore, nodeAfter, () => content ? _toNode(content) : null)) { return; }
     let next;
     for (let n = nodeBefore.nextSibling; n && n !== nodeAfter; n = next) {
       next = n.nextSibling;
@@ -29,11 +35,15 @@ export function replaceContent(nodeBefore: Node, nodeAfter: Node, content: DomCo
       elem.removeChild(n);
     }
     if (content) {
-      elem.insertBefore(content instanceof G.Node ? content : frag(content), nodeAfter);
+      elem.insertBefore(_toNode(content), nodeAfter);
     }
   }
 }
 
+function _toNode(content: DomContents): Node {
+  return content instanceof G.Node ? content : frag(content);
+}
+
 /**
  * Appends dynamic DOM content to an element. The value may be an observable or function (from
  * which a computed is created), whose value will be passed to `contentFunc` which should return
@@ -83,14 +93,13 @@ export function domComputed<T>(valueObs: BindableValue<T>, contentFunc: (val: T)
 export function domComputed<T>(
   valueObs: BindableValue<T>, contentFunc: (val: T) => DomContents = identity as any,
 ): DomComputed {
-  const markerPre = G.document.createComment('a');
-  const markerPost = G.document.createComment('b');
+  const [markerPre, markerPost] = _createMarkers();
 
   // Function is added after markerPre and markerPost, so that it runs once they have already been
   // attached to elem (the parent element).
   return [markerPre, markerPost, (elem: Node) => {
     subscribeElem(markerPost, valueObs,
-      (value) => replaceContent(markerPre, markerPost, contentFunc(value)));
+      _withErrorBoundary((value: T) => replaceContent(markerPre, markerPost, contentFunc(value)), undefined));
   }];
 }
 
@@ -154,3 +163,192 @@ export function maybeOwned<T>(boolValueObs: BindableValue<T>,
     contentFunc: (owner: MultiHolder, val: NonNullable<T>) => DomContents): DomComputed {
   return domComputedOwned(boolValueObs, (owner, value) => value ? contentFunc(owner, value!) : null);
 }
+
+/**
+ * Options for domAsync(), with functions to build DOM content for each state of a promise.
+ */
+export interface IDomAsyncOptions<T> {
+  /** Content to show while the promise is outstanding. Defaults to no content. */
+  pending?: () => DomContents;
+
+  /** Content to show once the promise resolves, built from its value. */
+  ready: (value: T) => DomContents;
+
+  /**
+   * Content to show if the promise gets rejected. If omitted, the error goes to the containing
+   * `errorBoundary()`; if there is none, the pending content is removed, and the error is passed
+   * to the handler set with `setComputeErrorHandler()`, or logged if there is no handler.
+   */
+  error?: (err: unknown) => DomContents;
+}
+
+/**
+ * Appends DOM content for the outcome of a promise to an element. While the promise is
+ * outstanding, it shows the content returned by `options.pending()`; once the promise settles,
+ * that content is disposed and replaced with `options.ready(value)` or `options.error(err)`.
+ * ```ts
+ * dom.domAsync(fetchUser(id), {
+ *   pending: () => dom('span', 'Loading...'),
+ *   ready: (user) => dom('span', user.name),
+ *   error: (err) => dom('span.error', String(err)),
+ * })
+ * ```
+ *
+ * The argument may also be an observable (or function for a computed) whose value is a promise.
+ * When it changes, the content for the previous promise gets disposed, and the outcome of that
+ * promise gets ignored. It may also be an `AsyncComputed`, in which case the content follows its
+ * `status`.
+ *
+ * Content is never built or inserted for a promise that settles after the containing DOM is
+ * disposed or detached.
+ */
+export function domAsync<T>(
+  promiseOrObs: BindableValue<Promise<T>>|AsyncComputed<T>, options: IDomAsyncOptions<T>,
+): DomComputed {
+  if (promiseOrObs instanceof AsyncComputed) {
+    const comp = promiseOrObs;
+    return domComputed((use) => use(comp.status), (status) =>
+      status === 'ready' ? options.ready(comp.value.get() as T) :
+      status === 'error' ? (options.error ? options.error(comp.error.get()) : null) :
+      (options.pending ? options.pending() : null));
+  }
+
+  const [markerPre, markerPost] = _createMarkers();
+  return [markerPre, markerPost, () => {
+    // The promise whose outcome we are waiting for; it's reset when the DOM is disposed.
+    let current: Promise<T>|null = null;
+    autoDisposeElem(markerPost, {dispose: () => { current = null; }});
+
+    // The markers may have moved since they were built (e.g. out of a DocumentFragment), so only
+    // check that they are still in some parent.
+    const isCurrent = (promise: Promise<T>) => current === promise && markerPre.parentNode !== null;
+    const hasBoundary = Boolean(_currentBoundary);
+    // Content built once a promise settles is built within the error boundary that contains this
+    // DOM, if any; bundleChanges() lets the boundary show its fallback right away on errors.
+    const settle = _withErrorBoundary((buildContent: () => DomContents) =>
+      replaceContent(markerPre, markerPost, buildContent()), undefined);
+    subscribeElem(markerPost, promiseOrObs, _withErrorBoundary((promise: Promise<T>) => {
+      current = promise;
+      replaceContent(markerPre, markerPost, options.pending ? options.pending() : null);
+      Promise.resolve(promise).then(
+        (value) => {
+          if (isCurrent(promise)) { bundleChanges(() => settle(() => options.ready(value))); }
+        },
+        (err) => {
+          // Rejections of stale promises are dropped. Without an error option, the error of the
+          // current one goes to the containing error boundary, or gets reported if there is none.
+          if (!isCurrent(promise)) { return; }
+          if (options.error || hasBoundary) {
+            const errorFunc = options.error || ((e: unknown): DomContents => { throw e; });
+            bundleChanges(() => settle(() => errorFunc(err)));
+          } else {
+            replaceContent(markerPre, markerPost, null);
+            _reportUnhandledError(err);
+          }
+        },
+      );
+    }, undefined));
+  }];
+}
+
+/**
+ * Appends DOM content built by `contentFunc()`, but if building it throws an error, shows
+ * `fallback(error)` in its place. Errors are also caught when DOM nested in the content gets
+ * rebuilt later, by `domComputed()`, `dom.maybe()`, `dom.forEach()` and similar. In either case,
+ * the content built so far is disposed, and replaced with the fallback.
+ * ```ts
+ * dom.errorBoundary(
+ *   (err) => dom('div.error', `Failed to show the table: ${err}`),
+ *   () => buildTable(rows),
+ * )
+ * ```
+ *
+ * Errors thrown by `fallback()` itself propagate to the containing error boundary, if any.
+ */
+export function errorBoundary(fallback: (error: unknown) => DomContents, contentFunc: () => DomContents): DomComputed {
+  const [markerPre, markerPost] = _createMarkers();
+  return [markerPre, markerPost, (elem: Node) => {
+    const boundary = new ErrorBoundary(markerPre, markerPost, fallback);
+    autoDisposeElem(markerPost, boundary);
+    boundary.build(contentFunc);
+  }];
+}
+
+// The error boundary whose content is currently being built.
+let _currentBoundary: ErrorBoundary|null = null;
+
+/**
+ * Shows content for an errorBoundary(), and replaces it with the fallback on errors.
+ */
+class ErrorBoundary {
+  // Errors in building the fallback are handled by the boundary containing this one, if any.
+  private _renderFallback = _withErrorBoundary(
+    () => replaceContent(this._markerPre, this._markerPost, this._fallback(this._error)), undefined);
+  private _depItem = new DepItem(this._showFallback, this);
+  private _error: unknown = undefined;
+  private _failed = false;
+  private _disposed = false;
+
+  constructor(private _markerPre: Node, private _markerPost: Node,
+              private _fallback: (error: unknown) => DomContents) {}
+
+  public build(contentFunc: () => DomContents) {
+    try {
+      _runInBoundary(this, () => replaceContent(this._markerPre, this._markerPost, contentFunc()));
+    } catch (e) {
+      this._failed = true;
+      this._error = e;
+      this._showFallback();
+    }
+  }
+
+  // Called for errors in rebuilding nested content. The fallback is shown once the current
+  // update is done, since the error may come from the middle of updating some nested content.
+  public fail(error: unknown) {
+    if (this._failed) { return; }
+    this._failed = true;
+    this._error = error;
+    this._depItem.enqueue();
+  }
+
+  public dispose() {
+    this._disposed = true;
+  }
+
+  private _showFallback() {
+    if (this._disposed) { return; }
+    this._renderFallback();
+  }
+}
+
+// Calls func with the given boundary as the current one.
+function _runInBoundary<R>(boundary: ErrorBoundary|null, func: () => R): R {
+  const prev = _currentBoundary;
+  _currentBoundary = boundary;
+  try {
+    return func();
+  } finally {
+    _currentBoundary = prev;
+  }
+}
+
+/**
+ * Wraps a callback that (re)builds DOM content, so that its errors are handled by the error
+ * boundary in effect when this is called, if any; the wrapped callback then returns errorValue.
+ * When called while that boundary's content is being built, errors propagate, since the boundary
+ * catches them anyway.
+ * @internal
+ */
+export function _withErrorBoundary<Args extends any[], R>(func: (...args: Args) => R, errorValue: R): (...args: Args) => R {
+  const boundary = _currentBoundary;
+  if (!boundary) { return func; }
+  return (...args: Args) => {
+    if (_currentBoundary === boundary) { return func(...args); }
+    try {
+      return _runInBoundary(boundary, () => func(...args));
+    } catch (e) {
+      boundary.fail(e);
+      return errorValue;
+    }
+  };
+}
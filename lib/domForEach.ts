@@ -1,10 +1,29 @@
-import {DomContents, replaceContent} from './domComputed';
+import {subscribeElem} from './binding';
+import {_withErrorBoundary, DomContents, replaceContent} from './domComputed';
 import {autoDisposeElem, domDispose} from './domDispose';
+import {_createMarkers} from './domHydrate';
 import {frag} from './domImpl';
 import {computedArray, MaybeObsArray, ObsArray} from './obsArray';
+import {IObsMapChange, MaybeObsMap} from './obsMap';
+import {BaseObservable, Observable} from './observable';
 
-// Use the browser globals in a way that allows replacing them with mocks in tests.
-import {G} from './browserGlobals';
+/**
+ * Options for forEach().
+ */
+export interface IForEachOptions<T> {
+  /**
+   * Returns a key identifying an item. When given, forEach() matches items of the old and new
+   * arrays by key on every change, including a change that replaces the whole array. Nodes for
+   * keys that are still present get moved into their new positions rather than rebuilt. Keys must
+   * be unique within the array.
+   */
+  key?: (item: T) => unknown;
+
+  /**
+   * If true, itemCreateFunc() gets an observable with the item's index as its third argument.
+   */
+  withIndex?: boolean;
+}
 
 /**
  * Creates DOM elements for each element of an observable array. As the array is changed, children
@@ -20,29 +39,63 @@ import {G} from './browserGlobals';
  *
  * Note that itemCreateFunc() is called with an index as the second argument, but that index is
  * only accurate at the time of the call, and will stop reflecting the true index if more items
- * are inserted or removed before it.
+ * are inserted or removed before it. With the `withIndex` option, the third argument is an
+ * observable with the item's index, which stays up to date. It should not be set. E.g.
+ * ```ts
+ * dom.forEach(rows, (row, i, index) => dom('div', dom.text((use) => String(use(index) + 1))),
+ *   {withIndex: true})
+ * ```
  *
  * If you'd like to map the DOM node back to its source item, use dom.data() and dom.getData() in
  * itemCreateFunc().
+ *
+ * With the `key` option, e.g. `dom.forEach(obsArr, fn, {key: (item) => item.id})`, existing nodes
+ * are reused for items with the same key, even when the whole array is replaced using `set()`.
+ * Only items with new keys get created, and only items whose keys are gone get disposed. Note that
+ * a node is reused even if the item with its key is a different object than before.
  */
 export function forEach<T>(
   obsArray: MaybeObsArray<T>,
-  itemCreateFunc: (item: T, index: number) => Node|null
+  itemCreateFunc: (item: T, index: number, indexObs: Observable<number>) => Node|null,
+  options: IForEachOptions<T> & {withIndex: true},
+): DomContents;
+export function forEach<T>(
+  obsArray: MaybeObsArray<T>,
+  itemCreateFunc: (item: T, index: number) => Node|null,
+  options?: IForEachOptions<T>,
+): DomContents;
+export function forEach<T>(
+  obsArray: MaybeObsArray<T>,
+  itemCreateFunc: (item: T, index: number, ...extra: any[]) => Node|null,
+  options: IForEachOptions<T> = {},
 ): DomContents {
-  const markerPre = G.document.createComment('a');
-  const markerPost = G.document.createComment('b');
-  return [markerPre, markerPost, (elem: Node) => {
+  const [markerPre, markerPost] = _createMarkers();
+  return [markerPre, markerPost, () => {
+    const createFunc = _withErrorBoundary(itemCreateFunc, null);
+    const withIndex = Boolean(options.withIndex);
     if (Array.isArray(obsArray)) {
-      replaceContent(markerPre, markerPost, obsArray.map(itemCreateFunc));
+      replaceContent(markerPre, markerPost, obsArray.map((item, i) =>
+        withIndex ? createFunc(item, i, Observable.create(null, i)) : createFunc(item, i)));
+      return;
+    }
+
+    if (options.key) {
+      _forEachKeyed(markerPre, markerPost, obsArray, createFunc, options.key, withIndex);
       return;
     }
 
-    const nodes: ObsArray<Node|null> = computedArray(obsArray, itemCreateFunc);
+    const nodes: ObsArray<Node|null> = withIndex ?
+      computedArray(obsArray, (item, i, arr, owner, indexObs) => createFunc(item, i, indexObs), {withIndex: true}) :
+      computedArray(obsArray, (item, i) => createFunc(item, i));
 
     // Be sure to dispose the newly-created array when the DOM it's associated with is gone.
     autoDisposeElem(markerPost, nodes);
 
     nodes.addListener((newArr: Array<Node|null>, oldArr: Array<Node|null>, splice?) => {
+      // The markers may have moved since they were built (e.g. out of a DocumentFragment), or been
+      // removed (e.g. when a containing errorBoundary shows its fallback).
+      const elem = markerPost.parentNode;
+      if (!elem) { return; }
       if (splice) {
         // Remove the elements that are gone.
         for (const node of splice.deleted) {
@@ -75,3 +128,206 @@ export function forEach<T>(
     replaceContent(markerPre, markerPost, nodes.get());
   }];
 }
+
+/**
+ * Creates DOM elements for each entry of an observable map, in the map's iteration order, similar
+ * to forEach() for arrays. This works for any Map-valued observable, and for obsMap() it works
+ * efficiently for changes to individual keys.
+ *
+ * The given itemCreateFunc() is called with `(value, key)`, as for `Map#forEach`, and should
+ * return a single DOM node, or null to skip that entry. It's called for keys when they get added,
+ * and again when a key's value gets replaced, in which case the old node gets replaced with the
+ * new one. Nodes for deleted keys are disposed with domDispose() and removed. If the map is
+ * replaced entirely (or changed without change info), all nodes are rebuilt.
+ */
+export function forEachMap<K, V>(
+  obsMap: MaybeObsMap<K, V>,
+  itemCreateFunc: (value: V, key: K) => Node|null,
+): DomContents {
+  const [markerPre, markerPost] = _createMarkers();
+  return [markerPre, markerPost, () => {
+    const createFunc = _withErrorBoundary(itemCreateFunc, null);
+    const build = (map: Map<K, V>) => [...map].map(([key, value]) => createFunc(value, key));
+    if (obsMap instanceof Map) {
+      replaceContent(markerPre, markerPost, build(obsMap));
+      return;
+    }
+
+    // Maps keys to their nodes, in the same order as the keys of the observed map.
+    let nodes = new Map<K, Node|null>();
+    const rebuild = (map: Map<K, V>) => {
+      const created = build(map);
+      nodes = new Map([...map.keys()].map((key, i) => [key, created[i]]));
+      replaceContent(markerPre, markerPost, created);
+    };
+    const removeNode = (elem: Node, node: Node|null) => {
+      if (node && node.parentNode === elem) {
+        domDispose(node);
+        elem.removeChild(node);
+      }
+    };
+
+    const listener = obsMap.addListener((map: Map<K, V>, prev: Map<K, V>, change?: IObsMapChange<K, V>) => {
+      if (!change) {
+        rebuild(map);
+        return;
+      }
+      // As in forEach(), the markers may have moved or been removed since they were built.
+      const elem = markerPost.parentNode;
+      if (!elem) { return; }
+      for (const key of change.deleted.keys()) {
+        removeNode(elem, nodes.get(key) || null);
+        nodes.delete(key);
+      }
+      for (const key of change.changed.keys()) {
+        const node = createFunc(map.get(key)!, key);
+        const oldNode = nodes.get(key) || null;
+        nodes.set(key, node);
+        if (node) { elem.insertBefore(node, _nextNode(elem, nodes, key, markerPost)); }
+        removeNode(elem, oldNode);
+      }
+      // New keys come last in a map's iteration order.
+      const added = change.added.map((key) => {
+        const node = createFunc(map.get(key)!, key);
+        nodes.set(key, node);
+        return node;
+      });
+      if (added.length > 0) {
+        elem.insertBefore(frag(added), markerPost);
+      }
+    });
+
+    // Be sure to stop listening when the DOM it's associated with is gone.
+    autoDisposeElem(markerPost, listener);
+    rebuild(obsMap.get());
+  }];
+}
+
+// Returns the node before which to insert the node for the given key: the first node for a later
+// key which is still in elem, or the end marker.
+function _nextNode<K>(elem: Node, nodes: Map<K, Node|null>, key: K, markerPost: Node): Node {
+  let found = false;
+  for (const [k, node] of nodes) {
+    if (found && node && node.parentNode === elem) { return node; }
+    if (k === key) { found = true; }
+  }
+  return markerPost;
+}
+
+/**
+ * Implements forEach() with the `key` option, reconciling the nodes with the new array on each
+ * change of obsArray.
+ */
+function _forEachKeyed<T>(
+  markerPre: Node, markerPost: Node, obsArray: BaseObservable<T[]>,
+  itemCreateFunc: (item: T, index: number, ...extra: any[]) => Node|null, getKey: (item: T) => unknown,
+  withIndex: boolean,
+): void {
+  let nodesByKey = new Map<unknown, Node|null>();
+  let indexesByKey = new Map<unknown, Observable<number>>();
+  let initialized = false;
+  subscribeElem(markerPost, obsArray, (items: T[]) => {
+    // As in forEach(), the markers may have moved or been removed since they were built.
+    const elem = markerPost.parentNode;
+    if (!elem) { return; }
+    const keys = items.map(getKey);
+    const newKeys = new Set<unknown>();
+    for (const key of keys) {
+      if (newKeys.has(key)) { throw new Error(`dom.forEach: duplicate key ${String(key)}`); }
+      newKeys.add(key);
+    }
+
+    // Remove the elements that are gone.
+    for (const [key, node] of nodesByKey) {
+      if (!newKeys.has(key) && node && node.parentNode === elem) {
+        domDispose(node);
+        elem.removeChild(node);
+      }
+    }
+
+    // Reuse nodes for known keys, and create nodes for new ones.
+    const oldNodesByKey = nodesByKey;
+    const oldIndexesByKey = indexesByKey;
+    const created = new Set<Node|null>();
+    nodesByKey = new Map();
+    indexesByKey = new Map();
+    const nodes = items.map((item, index) => {
+      const key = keys[index];
+      let node: Node|null;
+      let indexObs = oldIndexesByKey.get(key);
+      if (oldNodesByKey.has(key)) {
+        node = oldNodesByKey.get(key)!;
+        if (indexObs) { indexObs.set(index); }
+      } else {
+        if (withIndex) {
+          indexObs = Observable.create(null, index);
+          node = itemCreateFunc(item, index, indexObs);
+        } else {
+          node = itemCreateFunc(item, index);
+        }
+        created.add(node);
+      }
+      nodesByKey.set(key, node);
+      if (indexObs) { indexesByKey.set(key, indexObs); }
+      return node;
+    });
+    for (const [key, indexObs] of oldIndexesByKey) {
+      if (!newKeys.has(key)) { indexObs.dispose(); }
+    }
+
+    if (!initialized) {
+      initialized = true;
+      replaceContent(markerPre, markerPost, nodes);
+      return;
+    }
+
+    // Nodes that are already in the right relative order stay in place; the rest get moved (or
+    // inserted if new). Nodes removed from elem externally are no longer owned, and stay out.
+    const present = nodes.filter((node) => node && node.parentNode === elem) as Node[];
+    const positions = new Map<Node, number>();
+    let pos = 0;
+    for (let n = elem.firstChild; n; n = n.nextSibling) {
+      positions.set(n, pos++);
+    }
+    const stay = _longestIncreasing(present.map((node) => positions.get(node)!));
+    const stayNodes = new Set(present.filter((node, i) => stay.has(i)));
+
+    let nextNode: Node = markerPost;
+    for (let i = nodes.length - 1; i >= 0; i--) {
+      const node = nodes[i];
+      if (!node || (node.parentNode !== elem && !created.has(node))) { continue; }
+      if (!stayNodes.has(node)) {
+        elem.insertBefore(node, nextNode);
+      }
+      nextNode = node;
+    }
+  });
+}
+
+/**
+ * Returns the set of indices of a longest strictly increasing subsequence of the given values.
+ */
+function _longestIncreasing(values: number[]): Set<number> {
+  // tails[k] is the index of the smallest value that ends an increasing subsequence of length k+1.
+  const tails: number[] = [];
+  const prev: number[] = [];
+  for (let i = 0; i < values.length; i++) {
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (values[tails[mid]] < values[i]) {
+        lo = mid + 1;
+      } else {
+        hi = mid;
+      }
+    }
+    prev[i] = lo > 0 ? tails[lo - 1] : -1;
+    tails[lo] = i;
+  }
+  const result = new Set<number>();
+  for (let i = tails.length > 0 ? tails[tails.length - 1] : -1; i >= 0; i = prev[i]) {
+    result.add(i);
+  }
+  return result;
+}
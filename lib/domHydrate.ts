@@ -0,0 +1,304 @@
+/**
+ * Support for hydration: attaching live grainjs bindings to DOM that was rendered on the server
+ * (see `renderToString()`), instead of building it anew.
+ *
+ * DOM is built by grainjs from the inside out: arguments to `dom()` are evaluated before the
+ * element itself gets created. So nodes can't be matched to the existing DOM by position at the
+ * time they are created. Instead, the server numbers elements and comment markers in the order of
+ * their creation, and the client, running the same code on the same data, claims existing nodes in
+ * the same order. On the server:
+ *
+ *    const html = renderToString(renderForHydration(() => buildPage()));
+ *
+ * On the client, with `html` already included into the container element:
+ *
+ *    hydrate(container, () => buildPage());
+ *
+ * Elements and markers get reused. Text nodes are not numbered (adjacent text gets merged when HTML
+ * is parsed), so new text nodes replace the matching server-rendered text instead.
+ *
+ * If the DOM built on the client doesn't match what the server rendered, `hydrate()` throws an
+ * exception describing the first mismatch. It disposes whatever it managed to build, and the
+ * caller may then clear the container and render from scratch.
+ */
+import {domDispose} from './domDispose';
+import {DomArg, update} from './domImpl';
+
+// Use the browser globals in a way that allows replacing them with mocks in tests.
+import {G} from './browserGlobals';
+
+// Attribute used to mark server-rendered elements with their hydration keys.
+const KEY_ATTR = 'data-grain-hk';
+
+// Server-rendered comment markers get their key appended, e.g. "a:17".
+const markerKeyRegex = /^(\w*):(\d+)$/;
+
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+const COMMENT_NODE = 8;
+const DOCUMENT_FRAGMENT_NODE = 11;
+
+interface IHydrationState {
+  // Counter of created elements and markers, which is the key of the next one to claim.
+  nextKey: number;
+  // Server-rendered nodes that have not yet been claimed, by key.
+  unclaimed: Map<number, Node>;
+  // Nodes that have been claimed (plus the container), which are left in place.
+  claimed: Set<Node>;
+  // For each parent, the last child put in its place, after which the next one is expected.
+  lastPlaced: Map<Node, Node|null|undefined>;
+  // Children added to DocumentFragments created during hydration. Claimed nodes are not actually
+  // moved into fragments; instead they are placed when the fragment itself gets inserted.
+  fragments: Map<Node, Node[]>;
+  // Maps the start marker of dynamic content to its end marker. Content between them is skipped
+  // when placing other nodes, since it's hydrated and checked separately (see _hydrateContent).
+  contentEnds: Map<Node, Node>;
+}
+
+// Set while rendering on the server with renderForHydration().
+let _serverKeys: {next: number}|null = null;
+
+// Set while hydrating on the client with hydrate().
+let _state: IHydrationState|null = null;
+
+/**
+ * Calls `func()` to build DOM on the server, marking created elements and `domComputed()` or
+ * `dom.forEach()` markers with keys that allow the client to `hydrate()` this DOM. Returns the
+ * result of `func()`, normally to be passed to `renderToString()`.
+ */
+export function renderForHydration<T>(func: () => T): T {
+  const prev = _serverKeys;
+  _serverKeys = {next: 0};
+  try {
+    return func();
+  } finally {
+    _serverKeys = prev;
+  }
+}
+
+/**
+ * Hydrates the content of `container`, which should contain DOM rendered on the server using
+ * `renderForHydration()`. Calls `buildFunc()`, which should build the same DOM as on the server.
+ * Rather than creating new elements, it reuses the existing ones, attaching to them all bindings,
+ * event listeners, and disposers. The result of `buildFunc()` is added to `container` as if with
+ * `dom.update(container, buildFunc())`.
+ *
+ * Throws an exception if the DOM being built doesn't match the existing content of `container`.
+ */
+export function hydrate(container: Element, buildFunc: () => DomArg<Element>): void {
+  if (_state) { throw new Error("hydrate() may not be called while hydrating"); }
+  const state: IHydrationState = _state = {
+    nextKey: 0,
+    unclaimed: new Map(),
+    claimed: new Set([container]),
+    lastPlaced: new Map(),
+    fragments: new Map(),
+    contentEnds: new Map(),
+  };
+  _collectKeyed(container, state.unclaimed);
+  try {
+    update(container, buildFunc());
+    _checkAtPosition(state, container, null, "end of content");
+    const [leftover] = Array.from(state.unclaimed.values());
+    if (leftover) {
+      throw _mismatch(`${_describe(leftover)} was not matched by any created node`);
+    }
+  } catch (e) {
+    for (let n = container.firstChild; n; n = n.nextSibling) {
+      domDispose(n);
+    }
+    throw e;
+  } finally {
+    _state = null;
+  }
+}
+
+/**
+ * Creates an element using `createFunc(tag)`, or claims an existing one when hydrating.
+ * @internal
+ */
+export function _createElem<E extends Element>(createFunc: (tag: string) => E, tag: string): E {
+  if (_state) {
+    const elem = _claim(_state, `<${tag}>`, (node) =>
+      node.nodeType === ELEMENT_NODE && node.nodeName.toLowerCase() === tag.toLowerCase()) as E;
+    elem.removeAttribute(KEY_ATTR);
+    return elem;
+  }
+  const elem = createFunc(tag);
+  if (_serverKeys) { elem.setAttribute(KEY_ATTR, String(_serverKeys.next++)); }
+  return elem;
+}
+
+/**
+ * Creates a pair of comment nodes to use as markers for dynamic content, or claims existing ones
+ * when hydrating.
+ * @internal
+ */
+export function _createMarkers(): [Comment, Comment] {
+  const markerPre = _createMarker('a');
+  const markerPost = _createMarker('b');
+  // Until the content gets hydrated, skip over it when placing the markers themselves.
+  if (_state) { _state.contentEnds.set(markerPre, markerPost); }
+  return [markerPre, markerPost];
+}
+
+function _createMarker(data: string): Comment {
+  if (_state) {
+    const marker = _claim(_state, `marker <!--${data}-->`, (node) => node.nodeType === COMMENT_NODE) as Comment;
+    marker.data = data;
+    return marker;
+  }
+  return G.document.createComment(_serverKeys ? `${data}:${_serverKeys.next++}` : data);
+}
+
+/**
+ * Creates a DocumentFragment, which when hydrating keeps track of its intended children.
+ * @internal
+ */
+export function _createFragment(): DocumentFragment {
+  const elem = G.document.createDocumentFragment();
+  if (_state) { _state.fragments.set(elem, []); }
+  return elem;
+}
+
+/**
+ * Appends child to parent. When hydrating, leaves claimed nodes in place, and puts new nodes in
+ * place of the matching server-rendered ones.
+ * @internal
+ */
+export function _appendChild(parent: Node, child: Node): void {
+  if (_state && (_state.claimed.has(parent) || _state.fragments.has(parent))) {
+    _insert(_state, parent, child);
+  } else {
+    parent.appendChild(child);
+  }
+}
+
+/**
+ * When hydrating, checks that all server-rendered children of a claimed element got claimed or
+ * replaced by the time the element is fully built.
+ * @internal
+ */
+export function _checkHydrated(elem: Node): void {
+  if (_state && _state.claimed.has(elem)) {
+    _checkAtPosition(_state, elem, null, `end of ${_describe(elem)}`);
+  }
+}
+
+/**
+ * When hydrating, and nodeBefore is a claimed marker, checks that the content built by getContent()
+ * matches the server-rendered content between the two markers, and returns true. Returns false if
+ * not hydrating, in which case the caller should replace the content in the usual way.
+ * @internal
+ */
+export function _hydrateContent(nodeBefore: Node, nodeAfter: Node, getContent: () => Node|null): boolean {
+  const state = _state;
+  if (!state || !state.claimed.has(nodeBefore) || !nodeBefore.parentNode) { return false; }
+  const parent = nodeBefore.parentNode;
+  const prev = state.lastPlaced.get(parent);
+  state.lastPlaced.set(parent, nodeBefore);
+  state.contentEnds.delete(nodeBefore);
+  const content = getContent();
+  if (content) { _insert(state, parent, content); }
+  _checkAtPosition(state, parent, nodeAfter, "end of dynamic content");
+  state.contentEnds.set(nodeBefore, nodeAfter);
+  state.lastPlaced.set(parent, prev);
+  return true;
+}
+
+function _claim(state: IHydrationState, description: string, isMatch: (node: Node) => boolean): Node {
+  const key = state.nextKey++;
+  const node = state.unclaimed.get(key);
+  if (!node) {
+    throw _mismatch(`no server-rendered node for ${description} (key ${key})`);
+  }
+  if (!isMatch(node)) {
+    throw _mismatch(`expected ${description} for key ${key}, found ${_describe(node)}`);
+  }
+  state.unclaimed.delete(key);
+  state.claimed.add(node);
+  state.lastPlaced.set(node, null);
+  return node;
+}
+
+function _insert(state: IHydrationState, parent: Node, child: Node): void {
+  const pending = state.fragments.get(parent);
+  if (pending) {
+    pending.push(child);
+    return;
+  }
+  if (child.nodeType === DOCUMENT_FRAGMENT_NODE) {
+    const items = state.fragments.get(child) || Array.from(child.childNodes);
+    state.fragments.delete(child);
+    for (const item of items) {
+      _insert(state, parent, item);
+    }
+    return;
+  }
+  if (state.claimed.has(child)) {
+    _checkAtPosition(state, parent, child, _describe(child));
+  } else {
+    let next = _nextPos(state, parent);
+    if (child.nodeType === TEXT_NODE && (child as Text).data) {
+      // Text must replace a prefix of the server-rendered text node at this position.
+      const text = (child as Text).data;
+      if (!next || next.nodeType !== TEXT_NODE || !(next as Text).data.startsWith(text)) {
+        throw _mismatch(`expected text ${JSON.stringify(text)}, found ${_describe(next)}`);
+      }
+      const serverText = next as Text;
+      if (serverText.data.length === text.length) {
+        next = serverText.nextSibling;
+        parent.removeChild(serverText);
+      } else {
+        serverText.data = serverText.data.slice(text.length);
+      }
+    }
+    parent.insertBefore(child, next);
+  }
+  state.lastPlaced.set(parent, child);
+}
+
+// Returns the child of parent after the last placed one, i.e. where the next child is expected.
+function _nextPos(state: IHydrationState, parent: Node): Node|null {
+  const last = state.lastPlaced.get(parent);
+  return last ? (state.contentEnds.get(last) || last.nextSibling) : parent.firstChild;
+}
+
+// Checks that the expected node is next in parent, ignoring whitespace-only text nodes.
+function _checkAtPosition(state: IHydrationState, parent: Node, expected: Node|null, description: string) {
+  let next = _nextPos(state, parent);
+  while (next && next !== expected && next.nodeType === TEXT_NODE && !(next as Text).data.trim()) {
+    next = next.nextSibling;
+  }
+  if (next !== expected) {
+    throw _mismatch(`expected ${description}, found ${_describe(next)}`);
+  }
+}
+
+// Finds all server-rendered elements and markers within container, saving them by key.
+function _collectKeyed(container: Node, result: Map<number, Node>): void {
+  for (let n = container.firstChild; n; n = n.nextSibling) {
+    if (n.nodeType === ELEMENT_NODE) {
+      const key = (n as Element).getAttribute(KEY_ATTR);
+      if (key !== null) { result.set(Number(key), n); }
+      _collectKeyed(n, result);
+    } else if (n.nodeType === COMMENT_NODE) {
+      const match = markerKeyRegex.exec((n as Comment).data);
+      if (match) { result.set(Number(match[2]), n); }
+    }
+  }
+}
+
+function _describe(node: Node|null): string {
+  if (!node) { return "no node"; }
+  switch (node.nodeType) {
+    case ELEMENT_NODE: return `<${node.nodeName.toLowerCase()}>`;
+    case TEXT_NODE: return `text ${JSON.stringify((node as Text).data)}`;
+    case COMMENT_NODE: return `comment <!--${(node as Comment).data}-->`;
+    default: return node.nodeName;
+  }
+}
+
+function _mismatch(message: string): Error {
+  return new Error(`Hydration mismatch: ${message}`);
+}
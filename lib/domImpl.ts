@@ -1,4 +1,5 @@
 import {domDispose} from './domDispose';
+import {_appendChild, _checkHydrated, _createElem, _createFragment} from './domHydrate';
 import {attrsElem} from './domMethods';
 
 // Use the browser globals in a way that allows replacing them with mocks in tests.
@@ -125,7 +126,7 @@ function _createFromTagString<E extends Element>(createFunc: (tag: string) => E,
     id = tagString.substring(hashPos + 1, dotPos);
   }
 
-  const elem: E = createFunc(tag);
+  const elem: E = _createElem(createFunc, tag);
   if (id) { elem.setAttribute('id', id); }
   if (classes) { elem.setAttribute('class', classes); }
   return elem;
@@ -155,7 +156,9 @@ function _updateWithArgs<T extends Node>(elem: T, args: IDomArgs<T>): T {
  */
 function _updateWithArgsOrDispose<T extends Node>(elem: T, args: IDomArgs<T>): T {
   try {
-    return _updateWithArgs(elem, args);
+    _updateWithArgs(elem, args);
+    _checkHydrated(elem);
+    return elem;
   } catch (e) {
     domDispose(elem);
     throw e;
@@ -174,11 +177,11 @@ function _updateWithArg<T extends Node>(elem: T, arg: DomArg<T>): void {
   } else if (arg === undefined || arg === null) {
     // Nothing to do.
   } else if (arg instanceof G.Node) {
-    elem.appendChild(arg);
+    _appendChild(elem, arg);
   } else if (typeof arg === 'object') {
     attrsElem(elem as any, arg);
   } else {
-    elem.appendChild(G.document.createTextNode(arg));
+    _appendChild(elem, G.document.createTextNode(arg));
   }
 }
 
@@ -205,7 +208,7 @@ function _updateWithArg<T extends Node>(elem: T, arg: DomArg<T>): void {
  * ```
  */
 export function frag(...args: IDomArgs<DocumentFragment>): DocumentFragment {
-  const elem = G.document.createDocumentFragment();
+  const elem = _createFragment();
   return _updateWithArgsOrDispose<DocumentFragment>(elem, args);
 }
 
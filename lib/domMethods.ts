@@ -1,5 +1,6 @@
 import {BindableValue, subscribeElem as _subscribe} from './binding';
 import {onDisposeElem} from './domDispose';
+import {_appendChild} from './domHydrate';
 import {DomElementMethod, DomMethod, IAttrObj} from './domImpl';
 
 // Use the browser globals in a way that allows replacing them with mocks in tests.
@@ -86,7 +87,7 @@ export function boolAttr(attrName: string, boolValueObs: BindableValue<boolean>)
  * @param value - The text value to add.
  */
 export function textElem(elem: Node, value: string): void {
-  elem.appendChild(G.document.createTextNode(value));
+  _appendChild(elem, G.document.createTextNode(value));
 }
 
 /**
@@ -96,7 +97,7 @@ export function text(valueObs: BindableValue<string>): DomMethod {
   return (elem) => {
     const textNode = G.document.createTextNode('');
     _subscribe(elem, valueObs, (val) => { textNode.nodeValue = val; });
-    elem.appendChild(textNode);
+    _appendChild(elem, textNode);
   };
 }
 
@@ -81,9 +81,7 @@ export class KoWrapObs<T> extends Observable<T> {
         this._koSub.dispose();
         this._koSub = null;
       } else if (!this._koSub) {
-        // TODO this is a little hack, really, BaseObservable should expose a way to set the value
-        // directly by derived classes, i.e. a protected setter.
-        (this as any)._value = this._koObs.peek();
+        this._setQuietly(this._koObs.peek());
         this._koSub = this._koObs.subscribe((val) => this.setAndTrigger(val));
       }
     });
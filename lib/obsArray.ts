@@ -1,7 +1,9 @@
-import {IDisposable, IDisposableOwnerT, setDisposeOwner} from './dispose';
+import {diffArrays} from './_array_diff';
+import {IDisposable, IDisposableOwnerT, MultiHolder, setDisposeOwner} from './dispose';
 import {Listener} from './emit';
-import {BaseObservable, Observable} from './observable';
-import {subscribe, Subscription} from './subscribe';
+import {fromKo} from './kowrap';
+import {BaseObservable, bundleChanges, Observable} from './observable';
+import {ISubscribable, ISubscribableObs, subscribe, Subscription, UseCB} from './subscribe';
 
 /**
  * Either an observable or a plain array of T. This is useful for functions like dom.forEach()
@@ -20,6 +22,17 @@ export interface IObsArraySplice<T> {
   deleted: T[];
 }
 
+/**
+ * Options for `MutableObsArray.setWithDiff()`.
+ */
+export interface ISetWithDiffOptions<T> {
+  /**
+   * Returns a key identifying an item, to match items of the old and new arrays by key rather
+   * than by identity. Matching items which are not identical still get replaced in the array.
+   */
+  key?: (item: T) => unknown;
+}
+
 export type ISpliceListener<T, C>  = (this: C, val: T[], prev: T[], change?: IObsArraySplice<T>) => void;
 
 /**
@@ -84,6 +97,24 @@ export class ObsArray<T> extends BaseObservable<T[]> {
     return this._setWithArg(value, splice);
   }
 
+  /**
+   * Calls func(), making sure that owned items included in keepItems don't get disposed, even if
+   * func() emits splices that delete them (e.g. when another splice adds them back).
+   * @internal
+   */
+  protected _keepOwned(keepItems: T[], func: () => void): void {
+    const owned = this._ownedItems;
+    if (!owned) { return func(); }
+    const kept = keepItems.filter((item) => owned.delete(item as T & IDisposable));
+    try {
+      func();
+    } finally {
+      for (const item of kept) {
+        this.autoDispose(item as T & IDisposable);
+      }
+    }
+  }
+
   /** @internal */
   protected _disposeOwned(splice?: IObsArraySplice<T>): void {
     if (!this._ownedItems) { return; }
@@ -163,6 +194,30 @@ export class MutableObsArray<T> extends ObsArray<T> {
     this._setWithSplice(value, {start, numAdded: newValues.length, deleted});
     return deleted;
   }
+
+  /**
+   * Changes the contents of the array to match newArray, emitting a minimal sequence of splices
+   * rather than a single change of the whole array. This allows `computedArray()` and
+   * `dom.forEach()` to update only the affected items, e.g. when replacing the array with new
+   * data received from a server.
+   *
+   * The splices are found by comparing items by identity, or by the key returned by the `key`
+   * option. The array itself remains the same object, only its contents are updated. Owned items
+   * that remain in the array don't get disposed, even if they are moved.
+   *
+   * The splices are bundled (see `bundleChanges()`), so that computeds get updated only once.
+   */
+  public setWithDiff(newArray: T[], options: ISetWithDiffOptions<T> = {}): void {
+    const value = this.get();
+    const hunks = diffArrays(value, newArray, options.key);
+    this._keepOwned(newArray, () => bundleChanges(() => {
+      for (const hunk of hunks) {
+        const newValues = newArray.slice(hunk.newStart, hunk.newEnd);
+        const deleted = value.splice(hunk.newStart, hunk.oldEnd - hunk.oldStart, ...newValues);
+        this._setWithSplice(value, {start: hunk.newStart, numAdded: newValues.length, deleted});
+      }
+    }));
+  }
 }
 
 /**
@@ -180,30 +235,194 @@ function isObsArray(val: BaseObservable<any>): val is BaseObservable<any[]> {
   return Array.isArray(val.get());
 }
 
+/**
+ * Describes a change to an array, like IObsArraySplice, but without the deleted items.
+ */
+interface ISpliceSpan {
+  start: number;
+  numDeleted: number;
+  numAdded: number;
+}
+
+// A run of consecutive items of an array, which are either original items starting at the
+// original index `orig`, or newly added items (when `orig` is -1).
+interface IItemRun {
+  orig: number;
+  len: number;
+}
+
+/**
+ * Converts a sequence of splices, applied in order to an array of the original length, into an
+ * equivalent list of non-overlapping splices, in increasing order. These may be applied in order,
+ * and each one's start refers to the same position in the final array.
+ */
+function mergeSplices(splices: Array<IObsArraySplice<unknown>>, finalLength: number): ISpliceSpan[] {
+  let origLength = finalLength;
+  for (const splice of splices) {
+    origLength -= splice.numAdded - splice.deleted.length;
+  }
+
+  // Track the array as a list of runs of original or added items, applying each splice to it.
+  let runs: IItemRun[] = [{orig: 0, len: origLength}];
+  let length = origLength;
+  for (const splice of splices) {
+    const end = splice.start + splice.deleted.length;
+    runs = [
+      ...sliceRuns(runs, 0, splice.start),
+      {orig: -1, len: splice.numAdded},
+      ...sliceRuns(runs, end, length),
+    ];
+    length += splice.numAdded - splice.deleted.length;
+  }
+
+  // Original items missing between runs were deleted; added runs were inserted. Adjacent changes
+  // get combined into one splice.
+  const result: ISpliceSpan[] = [];
+  const addChange = (start: number, numDeleted: number, numAdded: number) => {
+    const last = result[result.length - 1];
+    if (last && last.start + last.numAdded === start) {
+      last.numDeleted += numDeleted;
+      last.numAdded += numAdded;
+    } else {
+      result.push({start, numDeleted, numAdded});
+    }
+  };
+  let pos = 0;
+  let orig = 0;
+  for (const run of runs) {
+    if (run.len === 0) { continue; }
+    if (run.orig < 0) {
+      addChange(pos, 0, run.len);
+    } else {
+      if (run.orig > orig) { addChange(pos, run.orig - orig, 0); }
+      orig = run.orig + run.len;
+    }
+    pos += run.len;
+  }
+  if (origLength > orig) { addChange(pos, origLength - orig, 0); }
+  return result;
+}
+
+// Returns the runs covering the positions [from, to) of the array described by the given runs.
+function sliceRuns(runs: IItemRun[], from: number, to: number): IItemRun[] {
+  const result: IItemRun[] = [];
+  let pos = 0;
+  for (const run of runs) {
+    const start = Math.max(pos, from);
+    const end = Math.min(pos + run.len, to);
+    if (start < end) {
+      result.push({orig: run.orig < 0 ? -1 : run.orig + (start - pos), len: end - start});
+    }
+    pos += run.len;
+  }
+  return result;
+}
+
+/**
+ * Options for `computedArray()`.
+ *  - `lazy`: if true, the array only subscribes to its source and maps its items while it has
+ *    listeners. Without listeners, its value is an empty array; when the first listener gets
+ *    added, listeners are notified of the change to the mapped items.
+ *  - `withOwner`: if true, the mapper gets a `MultiHolder` owner for each item as its fourth
+ *    argument.
+ *  - `withIndex`: if true, the mapper gets an owner as with `withOwner`, and an observable with the
+ *    item's index as its fifth argument.
+ */
+export interface IComputedArrayOptions {
+  lazy?: boolean;
+  withOwner?: boolean;
+  withIndex?: boolean;
+}
+
+// What ComputedArray keeps for each mapped item, if the options ask for it: its owner, and an
+// observable with its index.
+interface IMappedItemState {
+  owner: MultiHolder;
+  index?: ItemIndex;
+}
+
 /**
  * See [`computedArray()`](#computedArray) for documentation.
  */
 export class ComputedArray<T, U> extends ObsArray<U> {
-  private _sub: Subscription;
+  private _sub: Subscription|null = null;
+  private _active = false;                                // Whether a lazy ComputedArray is subscribed.
   private _source?: BaseObservable<T[]>;
   private _listener?: Listener;
-  private _lastSplice?: IObsArraySplice<T>|false;     // false is a marker that full rebuild is needed
+  private _splices?: Array<IObsArraySplice<T>>|false;     // false is a marker that full rebuild is needed
+  private _itemStates: IMappedItemState[] = [];           // Parallel to the mapped items, if used.
+  private _withOwner: boolean;                            // Whether the mapper gets an owner.
+  private _withIndex: boolean;                            // Whether the mapper gets an indexObs.
+  private _listenedIndexes = 0;                           // How many index observables have listeners.
 
+  // Internal constructor for a ComputedArray. You should use computedArray() function instead.
   constructor(
-    obsArr: BaseObservable<T[]> | Observable<BaseObservable<T[]>>,
-    private _mapper: (item: T, index: number, arr: ComputedArray<T, U>) => U,
+    private _obsArr: BaseObservable<T[]> | Observable<BaseObservable<T[]>>,
+    private _mapper: (item: T, index: number, arr: ComputedArray<T, U>, ...extra: any[]) => U,
+    options: IComputedArrayOptions = {},
   ) {
     super([]);
-    this._sub = isObsArray(obsArr) ?
-      subscribe(obsArr, (use) => this._syncMap(obsArr)) :
-      subscribe(obsArr, (use, obsArrayValue) => { use(obsArrayValue); return this._syncMap(obsArrayValue); });
+    this._withOwner = Boolean(options.withOwner || options.withIndex);
+    this._withIndex = Boolean(options.withIndex);
+    if (options.lazy) {
+      this.setListenerChangeCB(this._onListenerChange, this);
+    } else {
+      this._activate();
+    }
   }
 
   /** @internal */
   public dispose() {
     this._unsync();
-    this._sub.dispose();
+    if (this._sub) { this._sub.dispose(); }
     super.dispose();
+    this._disposeStates(this._itemStates);
+    this._itemStates = [];
+  }
+
+  /**
+   * Returns the current position of the item with the given index observable, or -1 if it's not
+   * in the array.
+   * @internal
+   */
+  public _findIndex(index: ItemIndex): number {
+    return this._itemStates.findIndex((state) => state.index === index);
+  }
+
+  /**
+   * Called by an item's index observable when it gains (delta 1) or loses (delta -1) listeners.
+   * @internal
+   */
+  public _countIndexListeners(delta: number) {
+    this._listenedIndexes += delta;
+  }
+
+  private _activate() {
+    const obsArr = this._obsArr;
+    this._sub = isObsArray(obsArr) ?
+      subscribe(obsArr, (use) => this._syncMap(obsArr)) :
+      subscribe(obsArr, (use, obsArrayValue) => { use(obsArrayValue); return this._syncMap(obsArrayValue); });
+  }
+
+  // For a lazy ComputedArray, subscribes while it has listeners. When the last one goes away,
+  // unsubscribes and releases mapped items, disposing those it owns.
+  private _onListenerChange(hasListeners: boolean) {
+    if (hasListeners) {
+      // Activating sets the mapped items, which notifies listeners, including the one being added.
+      if (!this._active) {
+        this._active = true;
+        this._activate();
+      }
+    } else if (this._active) {
+      this._active = false;
+      this._unsync();
+      if (this._sub) { this._sub.dispose(); }
+      this._sub = null;
+      const states = this._itemStates;
+      this._itemStates = [];
+      this.set([]);
+      this._disposeStates(states);
+    }
   }
 
   private _syncMap(obsArr: BaseObservable<T[]>): void {
@@ -212,14 +431,27 @@ export class ComputedArray<T, U> extends ObsArray<U> {
       this._listener = obsArr.addListener(this._recordChange, this);
       this._source = obsArr;
       this._rebuild(obsArr);
-    } else if (this._lastSplice) {
-      // If we are syncing to the same array as before and recorded a single splice, apply it now.
-      this._applySplice(obsArr, this._lastSplice);
+    } else if (this._splices) {
+      // If we are syncing to the same array as before and recorded splices, apply them now. If
+      // there were several (e.g. within bundleChanges()), they are first merged into a list of
+      // disjoint splices, each of which is applied and emitted in turn.
+      const splices = this._splices;
+      const spans = splices.length === 1 ?
+        [{start: splices[0].start, numDeleted: splices[0].deleted.length, numAdded: splices[0].numAdded}] :
+        mergeSplices(splices, obsArr.get().length);
+      for (const span of spans) {
+        this._applySplice(obsArr, span);
+      }
+      // Items after the first span that changes the length have moved.
+      const moved = spans.find((span) => span.numAdded !== span.numDeleted);
+      if (moved && this._withIndex) {
+        this._updateIndexes(moved.start + moved.numAdded);
+      }
     } else {
-      // If the full array changed or we had multiple splices, give up and rebuild.
+      // If the full array changed, give up and rebuild.
       this._rebuild(obsArr);
     }
-    this._lastSplice = undefined;
+    this._splices = undefined;
   }
 
   private _unsync() {
@@ -231,32 +463,117 @@ export class ComputedArray<T, U> extends ObsArray<U> {
   }
 
   private _rebuild(obsArr: BaseObservable<T[]>) {
-    this.set(obsArr.get().map((item: T, i: number) => this._mapper.call(undefined, item, i, this)));
+    const oldStates = this._itemStates;
+    const newStates: IMappedItemState[] = [];
+    const items = obsArr.get().map((item: T, i: number) => this._mapItem(item, i, newStates));
+    this._itemStates = newStates;
+    this.set(items);
+    this._disposeStates(oldStates);
   }
 
-  private _applySplice(obsArr: BaseObservable<T[]>, change: IObsArraySplice<T>) {
+  private _applySplice(obsArr: BaseObservable<T[]>, change: ISpliceSpan) {
     const sourceArray: T[] = obsArr.get();
     const newItems: U[] = [];
+    const newStates: IMappedItemState[] = [];
     for (let i = change.start, n = 0; n < change.numAdded; i++, n++) {
-      newItems.push(this._mapper.call(undefined, sourceArray[i], i, this));
+      newItems.push(this._mapItem(sourceArray[i], i, newStates));
     }
     const items: U[] = this.get();
-    const deleted = items.splice(change.start, change.deleted.length, ...newItems);
+    const deleted = items.splice(change.start, change.numDeleted, ...newItems);
+    const deletedStates = this._withOwner ?
+      this._itemStates.splice(change.start, change.numDeleted, ...newStates) : [];
     this._setWithSplice(items, {start: change.start, numAdded: newItems.length, deleted});
+    this._disposeStates(deletedStates);
+  }
+
+  // Calls the mapper for an item. If the options ask for them, creates an owner and an index
+  // observable for the item, which get added to states.
+  private _mapItem(item: T, index: number, states: IMappedItemState[]): U {
+    let owner: MultiHolder|undefined;
+    let indexObs: ItemIndex|undefined;
+    if (this._withOwner) {
+      owner = MultiHolder.create(null);
+      indexObs = this._withIndex ? owner.autoDispose(new ItemIndex(this, index)) : undefined;
+      states.push({owner, index: indexObs});
+    }
+    return this._mapper.call(undefined, item, index, this, owner, indexObs);
+  }
+
+  // Updates the index observables of items starting with the given position, after splices.
+  // Only those with listeners need it; others look up their position when read.
+  private _updateIndexes(start: number) {
+    if (this._listenedIndexes === 0) { return; }
+    const states = this._itemStates;
+    bundleChanges(() => {
+      for (let i = start; i < states.length; i++) {
+        const index = states[i].index!;
+        if (index.hasListeners()) { index.set(i); }
+      }
+    });
+  }
+
+  // Owners of deleted items get disposed after listeners learn of the deletion, as for owned items.
+  private _disposeStates(states: IMappedItemState[]) {
+    for (const state of states) { state.owner.dispose(); }
   }
 
   private _recordChange(newItems: T[], oldItems: T[], change?: IObsArraySplice<T>): void {
-    // We don't attempt to handle efficiency multiple splices (it's quite hard in general, and
-    // even harder to know that it's more efficient than rebuilding), so if _lastSplice is set, we
-    // set it to a marker to mark the array for rebuilding.
-    if (change && this._lastSplice === undefined) {
-      this._lastSplice = change;
-    } else {
-      this._lastSplice = false;     // This is a marker that a full rebuild is needed.
+    // Collect splices until the next sync. A change without splice info marks the array for
+    // rebuilding.
+    if (!change) {
+      this._splices = false;        // This is a marker that a full rebuild is needed.
+    } else if (this._splices === undefined) {
+      this._splices = [change];
+    } else if (this._splices) {
+      this._splices.push(change);
     }
   }
 }
 
+/**
+ * The observable index of an item in a ComputedArray. Keeping all indexes up to date would make
+ * each splice take time proportional to the length of the array, so only indexes with listeners
+ * get updated; others look up their item's position when read.
+ */
+class ItemIndex extends Observable<number> {
+  private _listened = false;
+
+  constructor(private _arr: ComputedArray<any, any>, index: number) {
+    super(index);
+    this.setListenerChangeCB(this._onListenerChange, this);
+  }
+
+  /** @override */
+  public get(): number {
+    return this._listened ? super.get() : this._position();
+  }
+
+  /** @override */
+  public dispose(): void {
+    if (this._listened) {
+      this._listened = false;
+      this._arr._countIndexListeners(-1);
+    }
+    super.dispose();
+  }
+
+  private _onListenerChange(hasListeners: boolean) {
+    if (hasListeners === this._listened) { return; }
+    if (hasListeners) {
+      this._setQuietly(this._position());
+    }
+    this._listened = hasListeners;
+    this._arr._countIndexListeners(hasListeners ? 1 : -1);
+  }
+
+  // While the mapper is creating the item, it isn't in the array yet, but the index it was created
+  // with is accurate.
+  private _position(): number {
+    const index = this._arr._findIndex(this);
+    return index >= 0 ? index : super.get();
+  }
+}
+
 /**
  * Returns an `ObsArray` that maps all elements of the passed-in `ObsArray` through a mapper
  * function. Also accepts an observable (e.g. a computed) whose value is an `ObsArray`.
@@ -272,6 +589,8 @@ export class ComputedArray<T, U> extends ObsArray<U> {
  *
  * The benefit of `computedArray()` is that a small change to the source array (e.g. one item
  * added or removed), causes a small change to the mapped array, rather than a full rebuild.
+ * This also works for several splices made within `bundleChanges()`: they are combined into a
+ * list of disjoint splices, which are applied to the mapped array (and emitted) one at a time.
  *
  * This is useful with an `ObsArray` or with an observable whose value is an `ObsArray`, and also
  * when the computed array's items are disposable and it owns them.
@@ -282,7 +601,8 @@ export class ComputedArray<T, U> extends ObsArray<U> {
  *
  * Note that the mapper function is called with `(item, index, array)` as for a standard
  * `array.map()`, but that the index is only accurate at the time of the call, and will stop
- * reflecting the true index if more items are inserted into the array later.
+ * reflecting the true index if more items are inserted into the array later. To keep track of
+ * the index, use the fifth argument, `indexObs` (described below).
  *
  * As with `ObsArray`, a `ComputedArray` may be used with disposable elements as their owners. E.g.
  * ```ts
@@ -295,12 +615,428 @@ export class ComputedArray<T, U> extends ObsArray<U> {
  *
  * Note that only the pattern above works: obsArray (or compArray) may only be used to take
  * ownership of those disposables that are added to it as array elements.
+ *
+ * For anything else that an item needs, such as computeds or listeners, the `withOwner` option
+ * gives the mapper a fourth argument: a `MultiHolder` owner for the item, which gets disposed when
+ * the item is removed (including when the whole array is rebuilt), or when the computed array is
+ * disposed. E.g.
+ * ```ts
+ * computedArray(users, (user, i, arr, owner) => Computed.create(owner, (use) => use(user.name)),
+ *   {withOwner: true});
+ * ```
+ *
+ * The `withIndex` option also gives the mapper an owner, and a fifth argument: an observable with
+ * the item's index, which gets updated as items are inserted or removed before it. It's owned by
+ * the item's owner, and should not be set. Only index observables that have listeners (e.g. are
+ * used by a computed) get updated on each splice.
+ * ```ts
+ * computedArray(users, (user, i, arr, owner, indexObs) =>
+ *   Computed.create(owner, (use) => `${use(indexObs) + 1}. ${use(user.name)}`), {withIndex: true});
+ * ```
+ *
+ * With the `lazy` option, modelled on `pureComputed()`, the array only subscribes to its source
+ * and maps items while something listens to it (e.g. `dom.forEach()` or a computed that uses
+ * it). When the last listener goes away, it releases the mapped items, disposing any it owns, and
+ * its value becomes an empty array until it gets listeners again. Getting a listener maps the items
+ * and notifies listeners of the change.
  */
+export function computedArray<T, U>(
+  obsArr: BaseObservable<T[]> | Observable<BaseObservable<T[]>>,
+  mapper: (item: T, index: number, arr: ComputedArray<T, U>, owner: MultiHolder, indexObs: Observable<number>) => U,
+  options: IComputedArrayOptions & {withIndex: true},
+): ObsArray<U>;
+export function computedArray<T, U>(
+  obsArr: BaseObservable<T[]> | Observable<BaseObservable<T[]>>,
+  mapper: (item: T, index: number, arr: ComputedArray<T, U>, owner: MultiHolder) => U,
+  options: IComputedArrayOptions & {withOwner: true},
+): ObsArray<U>;
 export function computedArray<T, U>(
   obsArr: BaseObservable<T[]> | Observable<BaseObservable<T[]>>,
   mapper: (item: T, index: number, arr: ComputedArray<T, U>) => U,
+  options?: IComputedArrayOptions,
+): ObsArray<U>;
+export function computedArray<T, U>(
+  obsArr: BaseObservable<T[]> | Observable<BaseObservable<T[]>>,
+  mapper: (item: T, index: number, arr: ComputedArray<T, U>, ...extra: any[]) => U,
+  options?: IComputedArrayOptions,
 ): ObsArray<U> {
-  return new ComputedArray<T, U>(obsArr, mapper);
+  return new ComputedArray<T, U>(obsArr, mapper, options);
+}
+
+// An item of the source array of a ComputedFilter or ComputedSort. Entries are distinct even
+// when the items are not.
+interface IViewEntry<T> {
+  item: T;
+  deps?: Set<ISubscribableObs>;   // Observables used by callbacks evaluated for this entry.
+  included: boolean;              // Whether the item passes the filter (for ComputedFilter).
+  index: number;                  // Index in the source array (for ComputedSort).
+}
+
+// The entries which use a particular observable, and the listener to its changes.
+interface IUsedBy<T> {
+  entries: Set<IViewEntry<T>>;
+  listener: Listener;
+}
+
+/**
+ * Base class for `ComputedFilter` and `ComputedSort`, which are views of a source array, with the
+ * same items. It keeps a list of entries for the source items in sync with splices to the source.
+ * It also keeps track of the observables used by callbacks evaluated for each entry, so that when
+ * one of them changes, only the affected entries get re-evaluated.
+ */
+export abstract class ComputedView<T> extends ObsArray<T> {
+  protected _entries: Array<IViewEntry<T>> = [];    // Parallel to the source array.
+  private _sub?: Subscription;
+  private _source?: BaseObservable<T[]>;
+  private _listener?: Listener;
+  private _splices?: Array<IObsArraySplice<T>>|false;     // false is a marker that full rebuild is needed
+  private _usedBy = new Map<ISubscribableObs, IUsedBy<T>>();
+  private _changed = new Set<IViewEntry<T>>();
+  private _usingA?: IViewEntry<T>;
+  private _usingB?: IViewEntry<T>;
+  private _useFunc: UseCB = this._useDependency.bind(this) as UseCB;
+
+  /** @internal */
+  public dispose() {
+    this._unsync();
+    if (this._sub) { this._sub.dispose(); }
+    for (const usedBy of this._usedBy.values()) { usedBy.listener.dispose(); }
+    this._usedBy.clear();
+    super.dispose();
+  }
+
+  /**
+   * Called once for all entries when the view needs to be rebuilt.
+   */
+  protected abstract _rebuild(entries: Array<IViewEntry<T>>): void;
+
+  /**
+   * Called for each disjoint splice to the source, after `_entries` is updated. The `start` is
+   * the position in `_entries` of the added entries.
+   */
+  protected abstract _spliceEntries(start: number, deleted: Array<IViewEntry<T>>, added: Array<IViewEntry<T>>): void;
+
+  /**
+   * Called after any splices, with the entries affected by changes to observables they used
+   * (possibly none). These entries no longer have any observables recorded as used.
+   */
+  protected abstract _updateEntries(changed: Set<IViewEntry<T>>): void;
+
+  /**
+   * Subscribes to the source array. It's called by derived classes once they are initialized,
+   * since it evaluates their callbacks immediately.
+   */
+  protected _init(obsArr: BaseObservable<T[]> | Observable<BaseObservable<T[]>>) {
+    this._sub = isObsArray(obsArr) ?
+      subscribe(obsArr, (use) => this._sync(use, obsArr)) :
+      subscribe(obsArr, (use, obsArrayValue) => { use(obsArrayValue); return this._sync(use, obsArrayValue); });
+  }
+
+  /**
+   * Calls func() with a `use` function which records the observables it uses as dependencies of
+   * the given entries (one or two of them).
+   */
+  protected _callWithUse<R>(entryA: IViewEntry<T>, entryB: IViewEntry<T>, func: (use: UseCB) => R): R {
+    const prevA = this._usingA, prevB = this._usingB;
+    this._usingA = entryA;
+    this._usingB = entryB;
+    try {
+      return func(this._useFunc);
+    } finally {
+      this._usingA = prevA;
+      this._usingB = prevB;
+    }
+  }
+
+  private _sync(use: UseCB, obsArr: BaseObservable<T[]>): void {
+    if (this._source !== obsArr || this._splices === false) {
+      if (this._source !== obsArr) {
+        this._unsync();
+        this._listener = obsArr.addListener(this._recordChange, this);
+        this._source = obsArr;
+      }
+      for (const entry of this._entries) { this._forgetDeps(entry); }
+      this._entries = obsArr.get().map((item, index) => ({item, included: false, index}));
+      this._rebuild(this._entries);
+    } else {
+      if (this._splices) {
+        const splices = this._splices;
+        const spans = splices.length === 1 ?
+          [{start: splices[0].start, numDeleted: splices[0].deleted.length, numAdded: splices[0].numAdded}] :
+          mergeSplices(splices, obsArr.get().length);
+        const sourceArray = obsArr.get();
+        for (const span of spans) {
+          const newItems = sourceArray.slice(span.start, span.start + span.numAdded);
+          const added = newItems.map((item, i) => ({item, included: false, index: span.start + i}));
+          const deleted = this._entries.splice(span.start, span.numDeleted, ...added);
+          for (const entry of deleted) {
+            this._forgetDeps(entry);
+            this._changed.delete(entry);
+          }
+          this._spliceEntries(span.start, deleted, added);
+        }
+      }
+      const changed = new Set(this._changed);
+      for (const entry of changed) { this._forgetDeps(entry); }
+      this._updateEntries(changed);
+    }
+    this._splices = undefined;
+    this._changed.clear();
+
+    // Stay subscribed to all observables used for any of the entries, which ensures that we get
+    // updated after any of them change.
+    for (const obs of this._usedBy.keys()) { use(obs as BaseObservable<unknown>); }
+  }
+
+  private _unsync() {
+    if (this._listener) {
+      this._listener.dispose();
+      this._listener = undefined;
+      this._source = undefined;
+    }
+  }
+
+  private _recordChange(newItems: T[], oldItems: T[], change?: IObsArraySplice<T>): void {
+    if (!change) {
+      this._splices = false;        // This is a marker that a full rebuild is needed.
+    } else if (this._splices === undefined) {
+      this._splices = [change];
+    } else if (this._splices) {
+      this._splices.push(change);
+    }
+  }
+
+  private _useDependency(_obs: ISubscribable) {
+    const obs = ('_getDepItem' in _obs) ? _obs : fromKo(_obs);
+    let usedBy = this._usedBy.get(obs);
+    if (!usedBy) {
+      const entries = new Set<IViewEntry<T>>();
+      const listener = obs.addListener(() => entries.forEach((e) => this._changed.add(e)));
+      usedBy = {entries, listener};
+      this._usedBy.set(obs, usedBy);
+    }
+    for (const entry of [this._usingA, this._usingB]) {
+      if (entry) {
+        usedBy.entries.add(entry);
+        (entry.deps || (entry.deps = new Set())).add(obs);
+      }
+    }
+    return obs.get();
+  }
+
+  private _forgetDeps(entry: IViewEntry<T>) {
+    if (!entry.deps) { return; }
+    for (const obs of entry.deps) {
+      const usedBy = this._usedBy.get(obs);
+      if (usedBy && usedBy.entries.delete(entry) && usedBy.entries.size === 0) {
+        usedBy.listener.dispose();
+        this._usedBy.delete(obs);
+      }
+    }
+    entry.deps = undefined;
+  }
+}
+
+/**
+ * See [`computedFilter()`](#computedFilter) for documentation.
+ */
+export class ComputedFilter<T> extends ComputedView<T> {
+  constructor(
+    obsArr: BaseObservable<T[]> | Observable<BaseObservable<T[]>>,
+    private _predicate: (item: T, use: UseCB) => boolean,
+  ) {
+    super([]);
+    this._init(obsArr);
+  }
+
+  protected _rebuild(entries: Array<IViewEntry<T>>) {
+    for (const entry of entries) { entry.included = this._test(entry); }
+    this.set(entries.filter((e) => e.included).map((e) => e.item));
+  }
+
+  protected _spliceEntries(start: number, deleted: Array<IViewEntry<T>>, added: Array<IViewEntry<T>>) {
+    for (const entry of added) { entry.included = this._test(entry); }
+    const newItems = added.filter((e) => e.included).map((e) => e.item);
+    const numDeleted = deleted.filter((e) => e.included).length;
+    if (newItems.length === 0 && numDeleted === 0) { return; }
+    let pos = 0;
+    for (let i = 0; i < start; i++) {
+      if (this._entries[i].included) { pos++; }
+    }
+    const items = this.get();
+    const deletedItems = items.splice(pos, numDeleted, ...newItems);
+    this._setWithSplice(items, {start: pos, numAdded: newItems.length, deleted: deletedItems});
+  }
+
+  protected _updateEntries(changed: Set<IViewEntry<T>>) {
+    if (changed.size === 0) { return; }
+    const items = this.get();
+    // Changes to adjacent items (ignoring excluded ones) get combined into a single splice.
+    let splice: {start: number, numDeleted: number, added: T[]}|null = null;
+    const flush = () => {
+      if (!splice) { return; }
+      const deleted = items.splice(splice.start, splice.numDeleted, ...splice.added);
+      this._setWithSplice(items, {start: splice.start, numAdded: splice.added.length, deleted});
+      splice = null;
+    };
+    let pos = 0;      // Position in the updated array of the next included item.
+    for (const entry of this._entries) {
+      const wasIncluded = entry.included;
+      if (changed.has(entry)) {
+        entry.included = this._test(entry);
+        if (entry.included !== wasIncluded) {
+          splice = splice || {start: pos, numDeleted: 0, added: []};
+          if (entry.included) {
+            splice.added.push(entry.item);
+            pos++;
+          } else {
+            splice.numDeleted++;
+          }
+          continue;
+        }
+      }
+      if (entry.included) {
+        flush();
+        pos++;
+      }
+    }
+    flush();
+  }
+
+  private _test(entry: IViewEntry<T>): boolean {
+    return this._callWithUse(entry, entry, (use) => Boolean(this._predicate(entry.item, use)));
+  }
+}
+
+/**
+ * Returns an `ObsArray` with the items of the passed-in `ObsArray` which satisfy the predicate.
+ * Like `computedArray()`, it also accepts an observable whose value is an `ObsArray`.
+ * ```ts
+ * computedFilter(obsArray, predicate)
+ * ```
+ *
+ * The result is analogous to:
+ * ```ts
+ * computed((use) => use(obsArray).filter((item) => predicate(item, use)))
+ * ```
+ *
+ * The benefit of `computedFilter()` is that splices to the source array cause small splices to
+ * the filtered array, with the predicate called only for the added items. The predicate may
+ * `use()` other observables. When one of them changes, the predicate is called again only for the
+ * items for which it used that observable, and the filtered array changes by minimal splices.
+ * ```ts
+ * const rows = obsArray<Row>([...]);   // Where each Row has an observable `visible` property.
+ * const visibleRows = computedFilter(rows, (row, use) => use(row.visible));
+ * ```
+ */
+export function computedFilter<T>(
+  obsArr: BaseObservable<T[]> | Observable<BaseObservable<T[]>>,
+  predicate: (item: T, use: UseCB) => boolean,
+): ObsArray<T> {
+  return new ComputedFilter<T>(obsArr, predicate);
+}
+
+/**
+ * See [`computedSort()`](#computedSort) for documentation.
+ */
+export class ComputedSort<T> extends ComputedView<T> {
+  private _sorted: Array<IViewEntry<T>> = [];
+  private _removed = new Set<IViewEntry<T>>();
+  private _added: Array<IViewEntry<T>> = [];
+
+  constructor(
+    obsArr: BaseObservable<T[]> | Observable<BaseObservable<T[]>>,
+    private _compareFn: (a: T, b: T, use: UseCB) => number,
+  ) {
+    super([]);
+    this._init(obsArr);
+  }
+
+  protected _rebuild(entries: Array<IViewEntry<T>>) {
+    this._sorted = entries.slice().sort((a, b) => this._compare(a, b));
+    this.set(this._sorted.map((e) => e.item));
+  }
+
+  protected _spliceEntries(start: number, deleted: Array<IViewEntry<T>>, added: Array<IViewEntry<T>>) {
+    // Splices are only collected here, to be applied in _updateEntries() all at once.
+    for (const entry of deleted) { this._removed.add(entry); }
+    this._added.push(...added);
+  }
+
+  protected _updateEntries(changed: Set<IViewEntry<T>>) {
+    const removed = this._removed;
+    const added = this._added;
+    this._removed = new Set();
+    this._added = [];
+    if (removed.size === 0 && added.length === 0 && changed.size === 0) { return; }
+
+    // Source indices are used to order equal items, so need updating after any splices.
+    if (removed.size > 0 || added.length > 0) {
+      this._entries.forEach((entry, i) => { entry.index = i; });
+    }
+
+    // Remove deleted and changed entries, then insert added and changed ones into place.
+    const sorted = this._sorted.filter((e) => !removed.has(e) && !changed.has(e));
+    for (const entry of [...added, ...changed]) {
+      sorted.splice(this._findPosition(sorted, entry), 0, entry);
+    }
+
+    // Emit the difference as a minimal sequence of splices.
+    const items = this.get();
+    for (const hunk of diffArrays(this._sorted, sorted)) {
+      const newItems = sorted.slice(hunk.newStart, hunk.newEnd).map((e) => e.item);
+      const deleted = items.splice(hunk.newStart, hunk.oldEnd - hunk.oldStart, ...newItems);
+      this._setWithSplice(items, {start: hunk.newStart, numAdded: newItems.length, deleted});
+    }
+    this._sorted = sorted;
+  }
+
+  // Returns the position at which to insert entry into the sorted array of entries.
+  private _findPosition(sorted: Array<IViewEntry<T>>, entry: IViewEntry<T>): number {
+    let low = 0, high = sorted.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this._compare(sorted[mid], entry) < 0) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+
+  // Compares entries using the comparator, and ordering equal items as in the source array.
+  private _compare(a: IViewEntry<T>, b: IViewEntry<T>): number {
+    return this._callWithUse(a, b, (use) => this._compareFn(a.item, b.item, use)) || (a.index - b.index);
+  }
+}
+
+/**
+ * Returns an `ObsArray` with the items of the passed-in `ObsArray` sorted using the comparator.
+ * Like `computedArray()`, it also accepts an observable whose value is an `ObsArray`.
+ * ```ts
+ * computedSort(obsArray, compareFn)
+ * ```
+ *
+ * The result is analogous to:
+ * ```ts
+ * computed((use) => use(obsArray).slice().sort((a, b) => compareFn(a, b, use)))
+ * ```
+ *
+ * The sort is stable: equal items keep their order in the source array. Splices to the source
+ * array cause only the added items to be inserted into place, and the sorted array changes by
+ * minimal splices. The comparator may `use()` other observables. When one of them changes, only
+ * the items which were being compared when the comparator used it get moved into place.
+ * ```ts
+ * const rows = obsArray<Row>([...]);   // Where each Row has an observable `name` property.
+ * const sortedRows = computedSort(rows, (a, b, use) => use(a.name).localeCompare(use(b.name)));
+ * ```
+ */
+export function computedSort<T>(
+  obsArr: BaseObservable<T[]> | Observable<BaseObservable<T[]>>,
+  compareFn: (a: T, b: T, use: UseCB) => number,
+): ObsArray<T> {
+  return new ComputedSort<T>(obsArr, compareFn);
 }
 
 /**
@@ -0,0 +1,125 @@
+/**
+ * Helpers for using observables with async code: iterating over their values with `for await`,
+ * and waiting for a value that satisfies a condition. E.g.
+ * ```ts
+ * for await (const value of obs.values()) { ... }
+ * const user = await waitFor(currentUser, (u) => u !== null, {timeout: 1000});
+ * ```
+ *
+ * Both work with any observable, including `Computed`, `PureComputed` (which gets activated while
+ * in use), and `ObsArray`. Both are built on `addListener()`, and remove their listener once done.
+ */
+
+import {Listener} from './emit';
+import {BaseObservable} from './observable';
+
+/**
+ * Returns an async iterator over the values of obs: its current value when iteration starts, and
+ * then each new value it gets set to, in order. Values that are set while the loop body is busy
+ * are kept until the loop gets to them.
+ *
+ * The iterator listens to obs until the loop exits (e.g. with `break`, `return`, or an
+ * exception), so a loop that's left running keeps obs in use. It's available as `obs.values()`.
+ */
+export function obsValues<T>(obs: BaseObservable<T>): AsyncIterableIterator<T> {
+  const buffer: T[] = [];
+  let listener: Listener|null = null;
+  let waiting: ((result: IteratorResult<T>) => void)|null = null;
+  let done = false;
+
+  function onChange(value: T) {
+    if (waiting) {
+      const resolve = waiting;
+      waiting = null;
+      resolve({value, done: false});
+    } else {
+      buffer.push(value);
+    }
+  }
+
+  function finish(): Promise<IteratorResult<T>> {
+    done = true;
+    buffer.length = 0;
+    if (listener) {
+      listener.dispose();
+      listener = null;
+    }
+    const result: IteratorResult<T> = {value: undefined, done: true};
+    if (waiting) {
+      waiting(result);
+      waiting = null;
+    }
+    return Promise.resolve(result);
+  }
+
+  return {
+    next(): Promise<IteratorResult<T>> {
+      if (done) { return finish(); }
+      if (!listener) {
+        // Get the value first: adding a listener may activate a PureComputed, which should not
+        // then report its value as a change.
+        buffer.push(obs.get());
+        listener = obs.addListener(onChange);
+      }
+      if (buffer.length > 0) {
+        return Promise.resolve({value: buffer.shift()!, done: false});
+      }
+      return new Promise((resolve) => { waiting = resolve; });
+    },
+    return: finish,
+    [Symbol.asyncIterator]() { return this; },
+  };
+}
+
+/**
+ * Options for `waitFor()`.
+ *  - `timeout`: if given, the number of milliseconds after which to give up, rejecting the
+ *    returned promise.
+ */
+export interface IWaitForOptions {
+  timeout?: number;
+}
+
+/**
+ * Returns a promise for the first value of obs that satisfies predicate (by default, the first
+ * truthy value). If the current value satisfies it, the promise is resolved right away. If the
+ * predicate throws, or the timeout passes first, the promise is rejected.
+ */
+export function waitFor<T>(
+  obs: BaseObservable<T>, predicate: (value: T) => boolean = Boolean, options: IWaitForOptions = {},
+): Promise<T> {
+  let listener: Listener|null = null;
+  let timer: ReturnType<typeof setTimeout>|undefined;
+  const promise = new Promise<T>((resolve, reject) => {
+    let settled = false;
+    const check = (value: T) => {
+      if (settled) { return; }
+      try {
+        if (!predicate(value)) { return; }
+        resolve(value);
+      } catch (e) {
+        reject(e);
+      }
+      settled = true;
+    };
+    check(obs.get());
+    if (settled) { return; }
+    listener = obs.addListener(check);
+    if (options.timeout !== undefined) {
+      timer = setTimeout(() => {
+        settled = true;
+        reject(new Error(`waitFor: timed out after ${options.timeout}ms`));
+      }, options.timeout);
+    }
+  });
+  // Clean up once the promise settles rather than from inside the listener, since a listener may
+  // not dispose itself while it's being called.
+  const cleanup = () => {
+    if (listener) { listener.dispose(); }
+    if (timer !== undefined) { clearTimeout(timer); }
+  };
+  return promise.then(
+    (value) => { cleanup(); return value; },
+    (err) => { cleanup(); throw err; },
+  );
+}
@@ -0,0 +1,436 @@
+import {DepItem} from './_computed_queue';
+import {IDisposable} from './dispose';
+import {Listener} from './emit';
+import {BaseObservable, bundleChanges} from './observable';
+
+/**
+ * Info about a modification to `ObsMap` contents. It is included as a third argument to change
+ * listeners when available. When not available, listeners should assume that the map changed
+ * completely.
+ */
+export interface IObsMapChange<K, V> {
+  added: K[];               // Keys that were added.
+  deleted: Map<K, V>;       // Keys that were deleted, mapped to their previous values.
+  changed: Map<K, V>;       // Keys whose values were replaced, mapped to their previous values.
+}
+
+/**
+ * Info about a modification to `ObsSet` contents, similar to `IObsMapChange`. Set items have no
+ * values that could change, so there are no changed items.
+ */
+export interface IObsSetChange<T> {
+  added: T[];
+  deleted: T[];
+}
+
+/**
+ * Either an observable or a plain Map. This is useful for functions like dom.forEachMap() which
+ * are convenient to have available for both.
+ */
+export type MaybeObsMap<K, V> = BaseObservable<Map<K, V>> | Map<K, V>;
+
+export type IMapChangeListener<K, V, C> = (this: C, val: Map<K, V>, prev: Map<K, V>, change?: IObsMapChange<K, V>) => void;
+export type ISetChangeListener<T, C> = (this: C, val: Set<T>, prev: Set<T>, change?: IObsSetChange<T>) => void;
+
+/**
+ * `ObsMap<K, V>` is a Map-valued observable, which allows for efficient observation of changes to
+ * individual keys. It's created with `obsMap<K, V>()`.
+ *
+ * As for any `Observable`, listeners get called with new and previous values, which for changes
+ * made with `setKey()`, `deleteKey()`, and `clear()` are the same `Map` object. In such cases, the
+ * listeners get a third argument with the keys that were added, deleted, or changed.
+ *
+ * `ObsMap` may be used with disposable values as their owner, similar to `ObsArray`. E.g.
+ * ```ts
+ * const map = obsMap<string, D>();
+ * map.setKey("x", D.create(map, "x"));
+ * map.setKey("x", D.create(map, "y"));   // Value D("x") gets disposed.
+ * map.dispose();                         // Value D("y") gets disposed.
+ * ```
+ */
+export class ObsMap<K, V> extends BaseObservable<Map<K, V>> {
+  private _ownedItems?: Set<V & IDisposable> = undefined;
+  private _keys = new KeyObservables<K, V|undefined>(this, (key) => this.get().get(key));
+
+  /**
+   * Adds a callback to listen to changes in the observable. In case of `ObsMap`, the listener
+   * gets additional information.
+   */
+  public addListener(callback: IMapChangeListener<K, V, void>): Listener;
+  public addListener<C>(callback: IMapChangeListener<K, V, C>, context: C): Listener;
+  public addListener(callback: IMapChangeListener<K, V, any>, optContext?: any): Listener {
+    return super.addListener(callback, optContext);
+  }
+
+  /** Returns the value for the given key, or undefined if the key is not present. */
+  public getKey(key: K): V|undefined {
+    return this.get().get(key);
+  }
+
+  /** Returns whether the given key is present. */
+  public hasKey(key: K): boolean {
+    return this.get().has(key);
+  }
+
+  /**
+   * Returns an observable for the value at the given key (undefined if the key is not present).
+   * A computed that calls `use(obsMap.key(k))` only gets re-evaluated when the value at `k`
+   * changes, unlike `use(obsMap)`, which depends on all changes to the map.
+   */
+  public key(key: K): ObsKey<K, V|undefined> {
+    return this._keys.get(key);
+  }
+
+  /** Returns the number of keys in the map. */
+  public get size(): number {
+    return this.get().size;
+  }
+
+  /**
+   * Sets the value for a key, adding the key if it's not yet present. Does nothing if the key is
+   * already set to this exact value.
+   */
+  public setKey(key: K, value: V): void {
+    const map = this.get();
+    const isPresent = map.has(key);
+    const prev = map.get(key)!;
+    if (isPresent && prev === value) { return; }
+    map.set(key, value);
+    this._setWithArg(map, isPresent ?
+      {added: [], deleted: new Map(), changed: new Map([[key, prev]])} :
+      {added: [key], deleted: new Map(), changed: new Map()});
+  }
+
+  /**
+   * Removes a key, and returns whether it was present.
+   */
+  public deleteKey(key: K): boolean {
+    const map = this.get();
+    if (!map.has(key)) { return false; }
+    const prev = map.get(key)!;
+    map.delete(key);
+    this._setWithArg(map, {added: [], deleted: new Map([[key, prev]]), changed: new Map()});
+    return true;
+  }
+
+  /**
+   * Removes all keys.
+   */
+  public clear(): void {
+    const map = this.get();
+    if (map.size === 0) { return; }
+    const deleted = new Map(map);
+    map.clear();
+    this._setWithArg(map, {added: [], deleted, changed: new Map()});
+  }
+
+  /**
+   * Take ownership of a value added to this map. This should _only_ be used for values in the
+   * map, not any unrelated items.
+   */
+  public autoDispose(value: V & IDisposable): V & IDisposable {
+    if (!this._ownedItems) { this._ownedItems = new Set<V & IDisposable>(); }
+    this._ownedItems.add(value);
+    return value;
+  }
+
+  /** @override */
+  public dispose(): void {
+    if (this._ownedItems) {
+      for (const value of this.get().values() as IterableIterator<V & IDisposable>) {
+        if (this._ownedItems.delete(value)) {
+          value.dispose();
+        }
+      }
+      this._ownedItems = undefined;
+    }
+    super.dispose();
+  }
+
+  /** @override */
+  public setAndTrigger(value: Map<K, V>): void {
+    bundleChanges(() => {
+      super.setAndTrigger(value);
+      this._keys.updateAll();
+    });
+  }
+
+  /** @internal */
+  protected _setWithArg(value: Map<K, V>, change: IObsMapChange<K, V>): void {
+    bundleChanges(() => {
+      super._setWithArg(value, change);
+      this._keys.update(change.added);
+      this._keys.update(change.deleted.keys());
+      this._keys.update(change.changed.keys());
+    });
+  }
+
+  /** @internal */
+  protected _disposeOwned(change?: IObsMapChange<K, V>): void {
+    if (!this._ownedItems) { return; }
+    this._ownedItems = disposeOwnedItems(this._ownedItems, this.get().values(),
+      change && [...change.deleted.values(), ...change.changed.values()]);
+  }
+}
+
+/**
+ * `ObsSet<T>` is a Set-valued observable, which allows for efficient observation of additions and
+ * removals of items. It's created with `obsSet<T>()`.
+ *
+ * As for `ObsMap`, listeners to changes made with `add()`, `delete()`, and `clear()` get a third
+ * argument with the items that were added or deleted. It may also be used as the owner of
+ * disposable items.
+ */
+export class ObsSet<T> extends BaseObservable<Set<T>> {
+  private _ownedItems?: Set<T & IDisposable> = undefined;
+  private _keys = new KeyObservables<T, boolean>(this, (item) => this.get().has(item));
+
+  /**
+   * Adds a callback to listen to changes in the observable. In case of `ObsSet`, the listener
+   * gets additional information.
+   */
+  public addListener(callback: ISetChangeListener<T, void>): Listener;
+  public addListener<C>(callback: ISetChangeListener<T, C>, context: C): Listener;
+  public addListener(callback: ISetChangeListener<T, any>, optContext?: any): Listener {
+    return super.addListener(callback, optContext);
+  }
+
+  /** Returns whether the given item is present. */
+  public has(item: T): boolean {
+    return this.get().has(item);
+  }
+
+  /**
+   * Returns an observable for whether the given item is present. A computed that calls
+   * `use(obsSet.key(item))` only gets re-evaluated when this item is added or deleted.
+   */
+  public key(item: T): ObsKey<T, boolean> {
+    return this._keys.get(item);
+  }
+
+  /** Returns the number of items in the set. */
+  public get size(): number {
+    return this.get().size;
+  }
+
+  /**
+   * Adds the given items, emitting a single change with those that weren't yet present.
+   */
+  public add(...items: T[]): void {
+    const set = this.get();
+    const added: T[] = [];
+    for (const item of items) {
+      if (!set.has(item)) {
+        set.add(item);
+        added.push(item);
+      }
+    }
+    if (added.length === 0) { return; }
+    this._setWithArg(set, {added, deleted: []});
+  }
+
+  /**
+   * Removes the given items, emitting a single change with those that were present.
+   */
+  public delete(...items: T[]): void {
+    const set = this.get();
+    const deleted: T[] = [];
+    for (const item of items) {
+      if (set.delete(item)) {
+        deleted.push(item);
+      }
+    }
+    if (deleted.length === 0) { return; }
+    this._setWithArg(set, {added: [], deleted});
+  }
+
+  /**
+   * Removes all items.
+   */
+  public clear(): void {
+    const set = this.get();
+    if (set.size === 0) { return; }
+    const deleted = [...set];
+    set.clear();
+    this._setWithArg(set, {added: [], deleted});
+  }
+
+  /**
+   * Take ownership of an item added to this set. This should _only_ be used for items in the
+   * set, not any unrelated items.
+   */
+  public autoDispose(value: T & IDisposable): T & IDisposable {
+    if (!this._ownedItems) { this._ownedItems = new Set<T & IDisposable>(); }
+    this._ownedItems.add(value);
+    return value;
+  }
+
+  /** @override */
+  public dispose(): void {
+    if (this._ownedItems) {
+      for (const item of this.get() as Set<T & IDisposable>) {
+        if (this._ownedItems.delete(item)) {
+          item.dispose();
+        }
+      }
+      this._ownedItems = undefined;
+    }
+    super.dispose();
+  }
+
+  /** @override */
+  public setAndTrigger(value: Set<T>): void {
+    bundleChanges(() => {
+      super.setAndTrigger(value);
+      this._keys.updateAll();
+    });
+  }
+
+  /** @internal */
+  protected _setWithArg(value: Set<T>, change: IObsSetChange<T>): void {
+    bundleChanges(() => {
+      super._setWithArg(value, change);
+      this._keys.update(change.added);
+      this._keys.update(change.deleted);
+    });
+  }
+
+  /** @internal */
+  protected _disposeOwned(change?: IObsSetChange<T>): void {
+    if (!this._ownedItems) { return; }
+    this._ownedItems = disposeOwnedItems(this._ownedItems, this.get().values(), change && change.deleted);
+  }
+}
+
+/**
+ * `ObsKey` is an observable for the value at one key of an `ObsMap`, or for the presence of one
+ * item in an `ObsSet`. It's returned by their `key()` methods, and is meant for use as a
+ * dependency of computeds and subscriptions, e.g. `use(obsMap.key(k))`, which then only get
+ * notified of changes to that key.
+ *
+ * While it has listeners, `key()` returns the same `ObsKey` for the same key; without listeners,
+ * it's not retained by the collection. Each has its own `DepItem`, so that its dependents are
+ * ordered after anything the collection itself depends on.
+ */
+export class ObsKey<K, V> extends BaseObservable<V> {
+  private _depItem = new DepItem(() => undefined);
+
+  constructor(private _keys: KeyObservables<K, V>, private _key: K) {
+    super(_keys.getValue(_key));
+    this.setListenerChangeCB(this._onListenerChange, this);
+  }
+
+  /**
+   * Returns the current value at this key. It's read from the collection, so is correct even
+   * for an `ObsKey` that's no longer listened to.
+   */
+  public get(): V { return this._keys.getValue(this._key); }
+
+  /**
+   * Used by subscriptions to keep track of dependencies.
+   * @internal
+   */
+  public _getDepItem(): DepItem {
+    this._depItem.useDep(this._keys.parent._getDepItem());
+    return this._depItem;
+  }
+
+  private _onListenerChange(hasListeners: boolean) {
+    if (hasListeners) {
+      this._keys.attach(this._key, this);
+    } else {
+      this._keys.detach(this._key, this);
+    }
+  }
+}
+
+// Keeps track of ObsKey observables for the keys of a collection which are being listened to,
+// and updates them when the collection changes.
+class KeyObservables<K, V> {
+  private _obsKeys = new Map<K, Set<ObsKey<K, V>>>();
+
+  constructor(public parent: BaseObservable<unknown>, public getValue: (key: K) => V) {}
+
+  public get(key: K): ObsKey<K, V> {
+    const obsKeys = this._obsKeys.get(key);
+    return obsKeys ? obsKeys.values().next().value! : new ObsKey<K, V>(this, key);
+  }
+
+  // An ObsKey which gets listeners after a period without them catches up with any changes it
+  // missed.
+  public attach(key: K, obsKey: ObsKey<K, V>) {
+    let obsKeys = this._obsKeys.get(key);
+    if (!obsKeys) {
+      obsKeys = new Set();
+      this._obsKeys.set(key, obsKeys);
+    }
+    obsKeys.add(obsKey);
+    obsKey.set(this.getValue(key));
+  }
+
+  public detach(key: K, obsKey: ObsKey<K, V>) {
+    const obsKeys = this._obsKeys.get(key);
+    if (obsKeys && obsKeys.delete(obsKey) && obsKeys.size === 0) {
+      this._obsKeys.delete(key);
+    }
+  }
+
+  public update(keys: Iterable<K>) {
+    if (this._obsKeys.size === 0) { return; }
+    for (const key of keys) {
+      const obsKeys = this._obsKeys.get(key);
+      if (obsKeys) {
+        const value = this.getValue(key);
+        for (const obsKey of obsKeys) { obsKey.set(value); }
+      }
+    }
+  }
+
+  public updateAll() {
+    this.update([...this._obsKeys.keys()]);
+  }
+}
+
+/**
+ * Disposes owned items that are no longer present, and returns the set of remaining owned items.
+ * If the removed items are known, only those are checked; otherwise, all owned items are.
+ */
+function disposeOwnedItems<T>(owned: Set<T & IDisposable>, current: Iterable<T>,
+                              removed?: T[]): Set<T & IDisposable> {
+  if (removed) {
+    for (const item of removed as Array<T & IDisposable>) {
+      if (owned.delete(item)) {
+        item.dispose();
+      }
+    }
+    return owned;
+  }
+  // Rebuild the set of owned items to have only the current items that were owned from before.
+  const newOwned = new Set<T & IDisposable>();
+  for (const item of current as Iterable<T & IDisposable>) {
+    if (owned.delete(item)) {
+      newOwned.add(item);
+    }
+  }
+  // After removing current items, dispose any remaining owned items.
+  for (const item of owned) {
+    item.dispose();
+  }
+  return newOwned;
+}
+
+/**
+ * Creates a new `ObsMap` with an optional initial value, defaulting to an empty map. The map
+ * passed in becomes the value of the observable, and gets modified by its methods.
+ */
+export function obsMap<K, V>(value: Map<K, V> = new Map()): ObsMap<K, V> {
+  return new ObsMap<K, V>(value);
+}
+
+/**
+ * Creates a new `ObsSet` with an optional initial value, defaulting to an empty set. The set
+ * passed in becomes the value of the observable, and gets modified by its methods.
+ */
+export function obsSet<T>(value: Set<T> = new Set()): ObsSet<T> {
+  return new ObsSet<T>(value);
+}
@@ -0,0 +1,91 @@
+/**
+ * Shorthands for common kinds of computed observables. E.g.
+ * ```ts
+ * const name = mapObs(user, (u) => u.name);                // A PureComputed<string>.
+ * const point = combineObs({x: xObs, y: yObs});            // A PureComputed<{x: number, y: number}>.
+ * const total = scanObs(owner, amount, (sum, a) => sum + a, 0);
+ * ```
+ *
+ * Operators that only transform the current values (`mapObs()`, `combineObs()`, `distinctObs()`)
+ * return a `PureComputed`, which doesn't need to be disposed. Operators that keep track of past
+ * values (`scanObs()`, `previousObs()`) need to see every change, so they return a `Computed`,
+ * which stays subscribed to its source until its owner disposes it.
+ */
+
+import {Computed} from './computed';
+import {IDisposableOwnerT} from './dispose';
+import {IKnockoutReadObservable} from './kowrap';
+import {BaseObservable, EqualityFunc} from './observable';
+import {PureComputed, pureComputed} from './pureComputed';
+import {InferUseType} from './subscribe';
+import {shallowEqual} from './util';
+
+/**
+ * Any observable that operators accept as a source.
+ */
+export type SourceObs = BaseObservable<any>|IKnockoutReadObservable<any>;
+
+/**
+ * The value of `combineObs(obsMap)`: an object with the values of the observables in `obsMap`.
+ */
+export type CombinedObsValue<T extends {[key: string]: SourceObs}> = {[K in keyof T]: InferUseType<T[K]>};
+
+/**
+ * Returns an observable whose value is `fn(value)` for each value of `obs`.
+ */
+export function mapObs<TObs extends SourceObs, R>(obs: TObs, fn: (value: InferUseType<TObs>) => R): PureComputed<R> {
+  return pureComputed((use) => fn(use(obs)));
+}
+
+/**
+ * Returns an observable whose value is an object with the current values of the given
+ * observables, under the same keys. The object is rebuilt when any of them changes.
+ */
+export function combineObs<T extends {[key: string]: SourceObs}>(obsMap: T): PureComputed<CombinedObsValue<T>> {
+  return pureComputed((use) => {
+    const result = {} as CombinedObsValue<T>;
+    for (const key of Object.keys(obsMap) as Array<keyof T>) {
+      result[key] = use(obsMap[key]);
+    }
+    return result;
+  });
+}
+
+/**
+ * Returns an observable that follows `obs`, but only changes when the new value isn't equal to the
+ * previous one according to `equals` (which defaults to `shallowEqual`).
+ */
+export function distinctObs<TObs extends SourceObs>(
+  obs: TObs, equals: EqualityFunc<InferUseType<TObs>> = shallowEqual,
+): PureComputed<InferUseType<TObs>> {
+  return pureComputed((use) => use(obs), {equals});
+}
+
+/**
+ * Returns an observable whose value accumulates the values of `obs`, like `Array.reduce()`. It
+ * starts out as `reducer(init, value)` for the current value of `obs`, and on each change,
+ * becomes `reducer(previousResult, newValue)`.
+ */
+export function scanObs<TObs extends SourceObs, R>(
+  owner: IDisposableOwnerT<Computed<R>>|null, obs: TObs,
+  reducer: (acc: R, value: InferUseType<TObs>) => R, init: R,
+): Computed<R> {
+  let acc = init;
+  return Computed.create(owner, (use) => (acc = reducer(acc, use(obs))));
+}
+
+/**
+ * Returns an observable whose value is the value `obs` had before its latest change, or undefined
+ * if it hasn't changed since this observable got created.
+ */
+export function previousObs<TObs extends SourceObs>(
+  owner: IDisposableOwnerT<Computed<InferUseType<TObs>|undefined>>|null, obs: TObs,
+): Computed<InferUseType<TObs>|undefined> {
+  let prev: InferUseType<TObs>|undefined;
+  let current: InferUseType<TObs>|undefined;
+  return Computed.create(owner, (use) => {
+    prev = current;
+    current = use(obs);
+    return prev;
+  });
+}
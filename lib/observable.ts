@@ -21,11 +21,31 @@
  * dependency is created, and which observables the dependency connects.
  */
 
-import {compute, DepItem} from './_computed_queue';
+import {_traceSet, compute, DepItem} from './_computed_queue';
+import {_debugRegister, _debugUnregister, isDebugGraphEnabled, setDebugName} from './debugGraph';
 import {IDisposable, IDisposableOwnerT, setDisposeOwner} from './dispose';
 import {Emitter, Listener} from './emit';
+import {obsValues} from './obsAsync';
 
-export {bundleChanges} from './_computed_queue';
+export {bundleChanges, ComputeErrorHandler, ComputeSchedule, ComputeTraceLogger, flushSync, formatComputeTrace,
+  IComputeTrace, IComputeTraceItem, setComputeErrorHandler, setComputeSchedule, setComputeTrace} from './_computed_queue';
+
+/**
+ * A function to decide whether a new value of an observable is the same as the previous one, in
+ * which case setting it does not notify listeners. See `shallowEqual()` and `deepEqual()`.
+ */
+export type EqualityFunc<T> = (a: T, b: T) => boolean;
+
+/**
+ * Options for creating an Observable. A string may be given in their place, as a shorthand for
+ * `{name}`.
+ *  - `name`: identifies the observable when debugging (see `setDebugName()`).
+ *  - `equals`: compares values when the observable is set (see `withEquals()`).
+ */
+export interface IObservableOptions<T> {
+  name?: string;
+  equals?: EqualityFunc<T>;
+}
 
 /**
  * Base class for several variants of observable values.
@@ -33,11 +53,13 @@ export {bundleChanges} from './_computed_queue';
 export class BaseObservable<T> {
   private _onChange: Emitter;
   private _value: T;
+  private _equals?: EqualityFunc<any>;     // Typed loosely to keep BaseObservable covariant in T.
 
   // Internal constructor for an Observable. You should use observable() function instead.
   constructor(value: T) {
     this._onChange = new Emitter();
     this._value = value;
+    if (isDebugGraphEnabled()) { _debugRegister(this, 'observable'); }
   }
 
   /**
@@ -53,17 +75,29 @@ export class BaseObservable<T> {
    * @param value - The new value to set.
    */
   public set(value: T): void {
-    if (value !== this._value) {
+    if (!this._isEqual(value)) {
       this.setAndTrigger(value);
     }
   }
 
+  /**
+   * Sets the function used by set() to decide whether the value has changed, in place of `===`.
+   * E.g. a computed that builds a new array on each evaluation could use
+   * `computed(...).withEquals(shallowEqual)` to avoid notifying listeners when the items are the
+   * same. Returns this observable.
+   */
+  public withEquals(equals: EqualityFunc<T>): this {
+    this._equals = equals;
+    return this;
+  }
+
   /**
    * Sets the value of the observable AND calls listeners even if the value is unchanged.
    */
   public setAndTrigger(value: T) {
     const prev = this._value;
     this._value = value;
+    _traceSet(this);
     this._onChange.emit(value, prev);
     this._disposeOwned();
     compute();
@@ -79,6 +113,14 @@ export class BaseObservable<T> {
     return this._onChange.addListener(callback, optContext);
   }
 
+  /**
+   * Returns an async iterator over the current and future values of this observable, for use as
+   * `for await (const value of obs.values())`. See `obsValues()`.
+   */
+  public values(): AsyncIterableIterator<T> {
+    return obsValues(this);
+  }
+
   /**
    * Returns whether this observable has any listeners.
    */
@@ -111,6 +153,7 @@ export class BaseObservable<T> {
    * Disposes the observable.
    */
   public dispose(): void {
+    _debugUnregister(this);
     this._disposeOwned();
     this._onChange.dispose();
     (this._value as any) = undefined;
@@ -123,9 +166,39 @@ export class BaseObservable<T> {
     return this._onChange.isDisposed();
   }
 
+  /**
+   * Returns whether value is the same as the current value, according to the equality function
+   * if one is set.
+   * @internal
+   */
+  protected _isEqual(value: T): boolean {
+    return this._equals ? this._equals(value, this._value) : value === this._value;
+  }
+
   /** @internal */
   protected _disposeOwned(arg?: any) { /* noop */ }
 
+  /**
+   * Sets the stored value without notifying listeners or disposing an owned value. This lets
+   * derived classes that get their value from elsewhere bring it up to date, e.g. when they start
+   * listening to their source again.
+   * @internal
+   */
+  protected _setQuietly(value: T) {
+    this._value = value;
+  }
+
+  /**
+   * Calls listeners as for a change, without changing the value or disposing an owned value. This
+   * lets derived classes tell dependents to re-read the value, e.g. when get() starts throwing.
+   * @internal
+   */
+  protected _notify() {
+    _traceSet(this);
+    this._onChange.emit(this._value, this._value);
+    compute();
+  }
+
   /**
    * Allow derived classes to emit change events with an additional third argument describing the
    * change. It always emits the event without checking for value equality.
@@ -134,6 +207,7 @@ export class BaseObservable<T> {
   protected _setWithArg(value: T, arg: any) {
     const prev = this._value;
     this._value = value;
+    _traceSet(this);
     this._onChange.emit(value, prev, arg);
     this._disposeOwned(arg);
     compute();
@@ -153,10 +227,15 @@ export class Observable<T> extends BaseObservable<T> implements IDisposableOwner
   }
 
   /**
-   * Creates a new Observable with the given initial value, and owned by owner.
+   * Creates a new Observable with the given initial value, and owned by owner. The optional last
+   * argument is `IObservableOptions`, or a name to identify the observable when debugging.
    */
-  public static create<T>(owner: IDisposableOwnerT<Observable<T>>|null, value: T): Observable<T> {
-    return setDisposeOwner(owner, new Observable<T>(value));
+  public static create<T>(
+    owner: IDisposableOwnerT<Observable<T>>|null, value: T, options?: string|IObservableOptions<T>,
+  ): Observable<T> {
+    const obs = new Observable<T>(value);
+    if (options !== undefined) { applyObservableOptions(obs, options); }
+    return setDisposeOwner(owner, obs);
   }
 
   private _owned?: T & IDisposable = undefined;
@@ -185,6 +264,16 @@ export class Observable<T> extends BaseObservable<T> implements IDisposableOwner
   }
 }
 
+/**
+ * Applies the name and equality function from options (or a name given as a string) to obs.
+ * @internal
+ */
+export function applyObservableOptions<T>(obs: BaseObservable<T>, options: string|IObservableOptions<T>): void {
+  if (typeof options === 'string') { options = {name: options}; }
+  if (options.name !== undefined) { setDebugName(obs, options.name); }
+  if (options.equals) { obs.withEquals(options.equals); }
+}
+
 /**
  * Creates a new Observable with the initial value of optValue if given or undefined if omitted.
  * @param optValue - The initial value to set.
@@ -1,4 +1,6 @@
 import {DepItem} from './_computed_queue';
+import {BaseComputed, IComputedOptions, popComputedOptions} from './computed';
+import {_debugRegister} from './debugGraph';
 import {IKnockoutReadObservable} from './kowrap';
 import {BaseObservable, Observable} from './observable';
 import {ISubscribable, ISubscribableObs, Subscription, UseCB} from './subscribe';
@@ -25,7 +27,7 @@ const emptyArray: ReadonlyArray<any> = [];
  * In addition to being cheaper when unused, a `PureComputed` also avoids leaking memory when
  * unused (since it's not registered with dependencies), so it is not necessary to dispose it.
  */
-export class PureComputed<T> extends Observable<T> {
+export class PureComputed<T> extends BaseComputed<T> {
   private _callback: (use: UseCB, ...args: any[]) => T;
   private _write: (value: T) => void;
   private _sub: Subscription|null;
@@ -33,10 +35,12 @@ export class PureComputed<T> extends Observable<T> {
   private _inCall: boolean;
 
   // Internal constructor for a PureComputed. You should use pureComputed() function instead.
-  constructor(callback: (use: UseCB, ...args: any[]) => T, dependencies: ReadonlyArray<ISubscribable>) {
+  constructor(callback: (use: UseCB, ...args: any[]) => T, dependencies: ReadonlyArray<ISubscribable>,
+    options: IComputedOptions = {},
+  ) {
     // At initialization we force an undefined value even though it's not of type T: it's not
     // actually used as get() is overridden.
-    super(undefined as any);
+    super(undefined as any, options);
     this._callback = callback;
     this._write = _noWrite;
     this._dependencies = dependencies.length > 0 ? dependencies : emptyArray;
@@ -57,12 +61,14 @@ export class PureComputed<T> extends Observable<T> {
       // _inCall member prevents infinite recursion.
       this._inCall = true;
       try {
-        const readArgs: [UseCB, ...any[]] = [_useFunc];
-        // Note that this attempts to optimize for speed.
-        for (let i = 0, len = this._dependencies.length; i < len; i++) {
-          readArgs[i + 1] = this._dependencies[i].get();
-        }
-        super.set(this._callback.apply(undefined, readArgs));
+        this._setFromCallback(() => {
+          const readArgs: [UseCB, ...any[]] = [_useFunc];
+          // Note that this attempts to optimize for speed.
+          for (let i = 0, len = this._dependencies.length; i < len; i++) {
+            readArgs[i + 1] = this._dependencies[i].get();
+          }
+          return this._callback.apply(undefined, readArgs);
+        });
       } finally {
         this._inCall = false;
       }
@@ -102,6 +108,8 @@ export class PureComputed<T> extends Observable<T> {
   private _activate(): void {
     if (!this._sub) {
       this._sub = new Subscription(this._read.bind(this), this._dependencies);
+      _debugRegister(this, 'computed', this._sub);
+      this._sub._getDepItem()._setDebugTarget(this);
     }
   }
 
@@ -115,37 +123,39 @@ export class PureComputed<T> extends Observable<T> {
   }
 
   private _read(use: any, ...args: any[]): void {
-    super.set(this._callback(use, ...args));
+    this._setFromCallback(() => this._callback(use, ...args));
   }
 }
 
 /**
- * Creates and returns a new PureComputed. The interface is identical to that of a Computed.
+ * Creates and returns a new PureComputed. The interface is identical to that of a Computed,
+ * including the optional last `options` argument.
  */
-export function pureComputed<T>(cb: (use: UseCB) => T): PureComputed<T>;
+export function pureComputed<T>(cb: (use: UseCB) => T, options?: string|IComputedOptions<T>): PureComputed<T>;
 
 export function pureComputed<A, T>(
     a: Observable<A>,
-    cb: (use: UseCB, a: A) => T): PureComputed<T>;
+    cb: (use: UseCB, a: A) => T, options?: string|IComputedOptions<T>): PureComputed<T>;
 
 export function pureComputed<A, B, T>(
     a: Observable<A>, b: Observable<B>,
-    cb: (use: UseCB, a: A, b: B) => T): PureComputed<T>;
+    cb: (use: UseCB, a: A, b: B) => T, options?: string|IComputedOptions<T>): PureComputed<T>;
 
 export function pureComputed<A, B, C, T>(
     a: Observable<A>, b: Observable<B>, c: Observable<C>,
-    cb: (use: UseCB, a: A, b: B, c: C) => T): PureComputed<T>;
+    cb: (use: UseCB, a: A, b: B, c: C) => T, options?: string|IComputedOptions<T>): PureComputed<T>;
 
 export function pureComputed<A, B, C, D, T>(
     a: Observable<A>, b: Observable<B>, c: Observable<C>, d: Observable<D>,
-    cb: (use: UseCB, a: A, b: B, c: C, d: D) => T): PureComputed<T>;
+    cb: (use: UseCB, a: A, b: B, c: C, d: D) => T, options?: string|IComputedOptions<T>): PureComputed<T>;
 
 export function pureComputed<A, B, C, D, E, T>(
     a: Observable<A>, b: Observable<B>, c: Observable<C>, d: Observable<D>, e: Observable<E>,
-    cb: (use: UseCB, a: A, b: B, c: C, d: D, e: E) => T): PureComputed<T>;
+    cb: (use: UseCB, a: A, b: B, c: C, d: D, e: E) => T, options?: string|IComputedOptions<T>): PureComputed<T>;
 
 export function pureComputed(...args: any[]): PureComputed<any> {
+  const options = popComputedOptions(args);
   const readCb = args.pop();
   // The cast helps ensure that Observable is compatible with ISubscribable abstraction that we use.
-  return new PureComputed<any>(readCb, args);
+  return new PureComputed<any>(readCb, args, options);
 }
@@ -0,0 +1,138 @@
+/**
+ * Grain.js observables can work with libraries that support the standard Observable protocol,
+ * such as RxJS.
+ *
+ *  import {toRx} from 'rxwrap';
+ *  import {from} from 'rxjs';
+ *
+ *  from(toRx(observable))
+ *
+ * turns a Grain.js observable (or computed) into an RxJS observable. The wrapper emits the current
+ * value to each new subscriber, and then each new value, i.e. it behaves like a BehaviorSubject.
+ * Similarly,
+ *
+ *  import {fromRx} from 'rxwrap';
+ *
+ *  fromRx(owner, rxObservable, initialValue)
+ *
+ * returns a Grain.js observable that takes the values emitted by rxObservable. It stays subscribed
+ * until it's disposed (e.g. by its owner).
+ *
+ * As with `kowrap`, this module doesn't depend on RxJS; it only relies on the protocol.
+ */
+
+import {IDisposableOwnerT, setDisposeOwner} from './dispose';
+import {BaseObservable, Observable} from './observable';
+
+/**
+ * The key under which interoperable observables expose themselves: `Symbol.observable` if it's
+ * defined (e.g. by a polyfill), or the string `'@@observable'` as RxJS uses otherwise.
+ */
+export const observableSymbol: symbol|'@@observable' =
+  (typeof Symbol === 'function' && (Symbol as any).observable) || '@@observable';
+
+export interface IRxObserver<T> {
+  next?(value: T): void;
+  error?(err: unknown): void;
+  complete?(): void;
+}
+
+export interface IRxUnsubscribable {
+  unsubscribe(): void;
+}
+
+/**
+ * An object implementing the Observable protocol, e.g. an RxJS Observable.
+ */
+export interface IRxSubscribable<T> {
+  subscribe(observer: IRxObserver<T>): IRxUnsubscribable;
+}
+
+/**
+ * What `toRx()` returns: a subscribable, which also exposes itself under `observableSymbol` so
+ * that libraries such as RxJS recognize it.
+ */
+export interface IRxObservable<T> extends IRxSubscribable<T> {
+  subscribe(observerOrNext: IRxObserver<T>|((value: T) => void)): IRxUnsubscribable;
+}
+
+const toRxWrappers: WeakMap<BaseObservable<any>, IRxObservable<any>> = new WeakMap();
+
+/**
+ * Returns a subscribable which mirrors a Grain.js observable. Calling it twice on the same
+ * observable returns the same wrapper.
+ */
+export function toRx<T>(grainObs: BaseObservable<T>): IRxObservable<T> {
+  let rxObs = toRxWrappers.get(grainObs);
+  if (!rxObs) {
+    rxObs = {
+      subscribe(observerOrNext: IRxObserver<T>|((value: T) => void)): IRxUnsubscribable {
+        const observer = typeof observerOrNext === 'function' ? {next: observerOrNext} : observerOrNext;
+        if (!observer.next) { return {unsubscribe() { /* noop */ }}; }
+        const listener = grainObs.addListener(observer.next, observer);
+        observer.next(grainObs.get());
+        return {unsubscribe: () => listener.dispose()};
+      },
+      [observableSymbol]() { return this; },
+    } as IRxObservable<T>;
+    toRxWrappers.set(grainObs, rxObs);
+  }
+  return rxObs;
+}
+
+/**
+ * An Observable that takes the values emitted by a subscribable, created via `fromRx()`. If the
+ * source signals an error, it is available in the `error` observable, and the value is no longer
+ * updated.
+ */
+export class RxWrapObs<T> extends Observable<T> {
+  public readonly error: Observable<unknown>;
+  private _rxSub?: IRxUnsubscribable;
+  private _done = false;
+
+  constructor(source: IRxSubscribable<T>, initialValue: T) {
+    super(initialValue);
+    this.error = Observable.create<unknown>(null, undefined);
+    const subscribable: IRxSubscribable<T> = (typeof (source as any)[observableSymbol] === 'function') ?
+      (source as any)[observableSymbol]() : source;
+    const rxSub = subscribable.subscribe({
+      next: (val) => this.set(val),
+      error: (err) => { this._unsubscribe(); this.error.set(err); },
+      complete: () => this._unsubscribe(),
+    });
+    // The source may have completed synchronously within subscribe().
+    if (this._done) {
+      rxSub.unsubscribe();
+    } else {
+      this._rxSub = rxSub;
+    }
+  }
+
+  /**
+   * Unsubscribes from the source, and disposes the observable.
+   */
+  public dispose(): void {
+    this._unsubscribe();
+    this.error.dispose();
+    super.dispose();
+  }
+
+  private _unsubscribe() {
+    this._done = true;
+    if (this._rxSub) {
+      this._rxSub.unsubscribe();
+      this._rxSub = undefined;
+    }
+  }
+}
+
+/**
+ * Returns a Grain.js observable which takes the values emitted by source, starting with
+ * initialValue, until it's disposed. If source exposes a subscribable under `observableSymbol`,
+ * that one is used.
+ */
+export function fromRx<T>(
+  owner: IDisposableOwnerT<RxWrapObs<T>>|null, source: IRxSubscribable<T>, initialValue: T,
+): RxWrapObs<T> {
+  return setDisposeOwner(owner, new RxWrapObs<T>(source, initialValue));
+}
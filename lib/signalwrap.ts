@@ -0,0 +1,140 @@
+/**
+ * Grain.js observables can work together with signals as described by the TC39 Signals proposal
+ * (e.g. as implemented by the `signal-polyfill` package).
+ *
+ *  import {fromSignal} from 'signalwrap';
+ *  import {Signal} from 'signal-polyfill';
+ *
+ *  fromSignal(Signal, signal)
+ *
+ * returns a Grain.js observable that mirrors the passed-in `Signal.State` or `Signal.Computed`, so
+ * that it may be used in a computed, e.g. `computed(use => use(fromSignal(Signal, count)) * 2)`.
+ * Similarly,
+ *
+ *  toSignal(Signal, observable)
+ *
+ * returns a `Signal.State` that mirrors the passed-in Grain.js observable or computed, so that
+ * signal-based code may depend on it.
+ *
+ * As with `kowrap`, the `Signal` namespace is passed in to avoid adding a dependency, calling either
+ * function twice on the same object returns the same wrapper, and the wrappers should not be
+ * disposed: their lifetime is tied to that of the wrapped object.
+ */
+
+import {BaseObservable, bundleChanges, Observable} from './observable';
+
+export interface ISignal<T> {
+  get(): T;
+}
+
+export interface IWritableSignal<T> extends ISignal<T> {
+  set(value: T): void;
+}
+
+export interface ISignalWatcher {
+  watch(...signals: Array<ISignal<any>>): void;
+  unwatch(...signals: Array<ISignal<any>>): void;
+}
+
+/**
+ * The parts of the `Signal` namespace from the TC39 proposal that this module uses.
+ */
+export interface ISignalModule {
+  State: new <T>(value: T) => IWritableSignal<T>;
+  subtle: {
+    Watcher: new (notify: () => void) => ISignalWatcher;
+  };
+}
+
+const fromSignalWrappers: WeakMap<ISignal<any>, Observable<any>> = new WeakMap();
+const toSignalWrappers: WeakMap<BaseObservable<any>, IWritableSignal<any>> = new WeakMap();
+
+/**
+ * Returns a Grain.js observable which mirrors a signal. Setting it is only supported if the
+ * signal is writable (e.g. a `Signal.State`).
+ */
+export function fromSignal<T>(signalModule: ISignalModule, signal: ISignal<T>): Observable<T> {
+  return fromSignalWrappers.get(signal) ||
+    fromSignalWrappers.set(signal, new SignalWrapObs(signalModule, signal)).get(signal)!;
+}
+
+/**
+ * An Observable that wraps a signal, created via `fromSignal()`. While it has listeners, it
+ * watches the signal using a `Signal.subtle.Watcher`. Signals only allow reading them after the
+ * watcher's notification returns, so listeners learn of changes in a microtask. Changes to all
+ * wrapped signals during that time get delivered together, as with `bundleChanges()`.
+ *
+ * `SignalWrapObs` should not be disposed; its lifetime is tied to that of the wrapped signal.
+ */
+export class SignalWrapObs<T> extends Observable<T> {
+  private _watcher: ISignalWatcher;
+  private _watching = false;
+
+  constructor(signalModule: ISignalModule, private _signal: ISignal<T>) {
+    super(_signal.get());
+    this._watcher = new signalModule.subtle.Watcher(() => _scheduleUpdate(this));
+    this.setListenerChangeCB((hasListeners) => {
+      if (!hasListeners) {
+        this._watcher.unwatch(this._signal);
+        this._watching = false;
+      } else if (!this._watching) {
+        this._setQuietly(this._signal.get());
+        this._watcher.watch(this._signal);
+        this._watching = true;
+      }
+    });
+  }
+  /** @override */
+  public get(): T { return this._signal.get(); }
+  /** @override */
+  public set(value: T): void {
+    const signal = this._signal as IWritableSignal<T>;
+    if (typeof signal.set !== 'function') { throw new Error("Can't write to a read-only signal"); }
+    signal.set(value);
+  }
+  /** @override */
+  public dispose(): void { throw new Error("SignalWrapObs should not be disposed"); }
+
+  /** @internal */
+  public _update() {
+    if (!this._watching) { return; }
+    const value = this._signal.get();
+    // Re-arm the watcher, which only notifies once until it's told to watch again.
+    this._watcher.watch();
+    super.set(value);
+  }
+}
+
+// Wrappers whose signals changed, to update together in a microtask. Updating them in one
+// bundleChanges() call ensures that a computed depending on several of them gets recomputed once.
+const _pendingUpdates = new Set<SignalWrapObs<any>>();
+
+function _scheduleUpdate(wrapper: SignalWrapObs<any>) {
+  if (_pendingUpdates.size === 0) {
+    Promise.resolve().then(_runUpdates).catch((e) => setTimeout(() => { throw e; }, 0));
+  }
+  _pendingUpdates.add(wrapper);
+}
+
+function _runUpdates() {
+  const wrappers = [..._pendingUpdates];
+  _pendingUpdates.clear();
+  bundleChanges(() => {
+    for (const wrapper of wrappers) { wrapper._update(); }
+  });
+}
+
+/**
+ * Returns a `Signal.State` which mirrors a Grain.js observable. Setting the signal does not
+ * affect the observable.
+ */
+export function toSignal<T>(signalModule: ISignalModule, grainObs: BaseObservable<T>): ISignal<T> {
+  const prevSignal = toSignalWrappers.get(grainObs);
+  if (prevSignal) {
+    return prevSignal;
+  }
+  const newSignal = new signalModule.State(grainObs.get());
+  toSignalWrappers.set(grainObs, newSignal);
+  grainObs.addListener((val) => newSignal.set(val));
+  return newSignal;
+}
@@ -0,0 +1,473 @@
+/**
+ * Support for rendering grainjs DOM on the server, without a browser and without jsdom.
+ *
+ * This module implements a lightweight virtual document, which supports just the subset of the DOM
+ * interface that grainjs itself needs to build and update DOM. It can be installed in place of the
+ * browser globals using `pushGlobals()`:
+ *
+ *    import {createVirtualWindow, renderStyles, renderToString} from 'grainjs';
+ *
+ *    pushGlobals(createVirtualWindow());
+ *    try {
+ *      const html = renderToString(buildPage());
+ *      const css = renderStyles();
+ *      ...
+ *    } finally {
+ *      popGlobals();
+ *    }
+ *
+ * Only attributes are serialized. Properties set directly on elements (e.g. with `dom.prop()`),
+ * and event listeners, are accepted but have no effect on the output.
+ */
+
+import {IBrowserGlobalsLax} from './browserGlobals';
+
+const HTML_NS = "http://www.w3.org/1999/xhtml";
+
+// Elements which never have content, and are serialized without a closing tag.
+const voidElements = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source',
+  'track', 'wbr',
+]);
+
+// Elements whose text content is serialized without escaping.
+const rawTextElements = new Set(['script', 'style']);
+
+/**
+ * Base class for all nodes of the virtual document. It maintains the tree structure using a
+ * doubly-linked list of children, so that insertions and removals are constant time.
+ */
+export abstract class VNode {
+  public static readonly ELEMENT_NODE = 1;
+  public static readonly TEXT_NODE = 3;
+  public static readonly COMMENT_NODE = 8;
+  public static readonly DOCUMENT_NODE = 9;
+  public static readonly DOCUMENT_FRAGMENT_NODE = 11;
+
+  public abstract readonly nodeType: number;
+  public abstract readonly nodeName: string;
+  public parentNode: VNode|null = null;
+  public firstChild: VNode|null = null;
+  public lastChild: VNode|null = null;
+  public nextSibling: VNode|null = null;
+  public previousSibling: VNode|null = null;
+
+  constructor(public readonly ownerDocument: VDocument|null) {}
+
+  public get childNodes(): VNode[] {
+    const result: VNode[] = [];
+    for (let n = this.firstChild; n; n = n.nextSibling) { result.push(n); }
+    return result;
+  }
+
+  public get parentElement(): VElement|null {
+    return this.parentNode instanceof VElement ? this.parentNode : null;
+  }
+
+  public get nodeValue(): string|null { return null; }
+  public set nodeValue(value: string|null) { /* noop, as for elements in a browser */ }
+
+  public get textContent(): string|null {
+    let result = '';
+    for (let n = this.firstChild; n; n = n.nextSibling) {
+      if (n.nodeType !== VNode.COMMENT_NODE) { result += n.textContent; }
+    }
+    return result;
+  }
+
+  public set textContent(value: string|null) {
+    while (this.firstChild) { this.removeChild(this.firstChild); }
+    if (value) { this.appendChild(this._getDoc().createTextNode(value)); }
+  }
+
+  public hasChildNodes(): boolean { return Boolean(this.firstChild); }
+
+  public contains(other: VNode|null): boolean {
+    for (let n = other; n; n = n.parentNode) {
+      if (n === this) { return true; }
+    }
+    return false;
+  }
+
+  public appendChild<T extends VNode>(child: T): T {
+    return this.insertBefore(child, null);
+  }
+
+  public insertBefore<T extends VNode>(child: T, ref: VNode|null): T {
+    if (ref && ref.parentNode !== this) {
+      throw new Error("insertBefore: reference node is not a child of this node");
+    }
+    if (child.contains(this)) {
+      throw new Error("insertBefore: the new child is an ancestor of the parent");
+    }
+    if (child instanceof VDocumentFragment) {
+      while (child.firstChild) { this.insertBefore(child.firstChild, ref); }
+      return child;
+    }
+    if (child === ref) { return child; }
+    if (child.parentNode) { child.parentNode.removeChild(child); }
+    const prev = ref ? ref.previousSibling : this.lastChild;
+    child.parentNode = this;
+    child.previousSibling = prev;
+    child.nextSibling = ref;
+    if (prev) {
+      prev.nextSibling = child;
+    } else {
+      this.firstChild = child;
+    }
+    if (ref) {
+      ref.previousSibling = child;
+    } else {
+      this.lastChild = child;
+    }
+    return child;
+  }
+
+  public removeChild<T extends VNode>(child: T): T {
+    if (child.parentNode !== this) {
+      throw new Error("removeChild: the node to be removed is not a child of this node");
+    }
+    if (child.previousSibling) {
+      child.previousSibling.nextSibling = child.nextSibling;
+    } else {
+      this.firstChild = child.nextSibling;
+    }
+    if (child.nextSibling) {
+      child.nextSibling.previousSibling = child.previousSibling;
+    } else {
+      this.lastChild = child.previousSibling;
+    }
+    child.parentNode = child.previousSibling = child.nextSibling = null;
+    return child;
+  }
+
+  public replaceChild<T extends VNode>(newChild: VNode, oldChild: T): T {
+    this.insertBefore(newChild, oldChild);
+    return this.removeChild(oldChild);
+  }
+
+  public remove(): void {
+    if (this.parentNode) { this.parentNode.removeChild(this); }
+  }
+
+  // Event listeners are accepted for compatibility, but events never fire on the server.
+  public addEventListener(...args: any[]): void { /* noop */ }
+  public removeEventListener(...args: any[]): void { /* noop */ }
+
+  protected _getDoc(): VDocument { return this.ownerDocument!; }
+}
+
+/**
+ * Base class for text and comment nodes.
+ */
+export abstract class VCharacterData extends VNode {
+  constructor(doc: VDocument, public data: string) { super(doc); }
+  public get length(): number { return this.data.length; }
+  public get nodeValue(): string { return this.data; }
+  public set nodeValue(value: string) { this.data = String(value ?? ''); }
+  public get textContent(): string { return this.data; }
+  public set textContent(value: string) { this.data = String(value ?? ''); }
+}
+
+export class VText extends VCharacterData {
+  public get nodeType() { return VNode.TEXT_NODE; }
+  public get nodeName() { return '#text'; }
+}
+
+export class VComment extends VCharacterData {
+  public get nodeType() { return VNode.COMMENT_NODE; }
+  public get nodeName() { return '#comment'; }
+}
+
+export class VDocumentFragment extends VNode {
+  public get nodeType() { return VNode.DOCUMENT_FRAGMENT_NODE; }
+  public get nodeName() { return '#document-fragment'; }
+}
+
+/**
+ * Minimal implementation of `element.classList`, which reads and writes the "class" attribute.
+ */
+class VClassList {
+  constructor(private _elem: VElement) {}
+
+  public get length(): number { return this._get().length; }
+  public item(index: number): string|null { return this._get()[index] ?? null; }
+  public contains(name: string): boolean { return this._get().indexOf(name) !== -1; }
+
+  public add(...names: string[]): void {
+    const list = this._get();
+    for (const name of names) {
+      if (list.indexOf(name) === -1) { list.push(name); }
+    }
+    this._set(list);
+  }
+
+  public remove(...names: string[]): void {
+    this._set(this._get().filter((c) => names.indexOf(c) === -1));
+  }
+
+  public toggle(name: string, force?: boolean): boolean {
+    const value = (force === undefined) ? !this.contains(name) : force;
+    if (value) {
+      this.add(name);
+    } else {
+      this.remove(name);
+    }
+    return value;
+  }
+
+  public toString(): string { return this._elem.getAttribute('class') || ''; }
+
+  private _get(): string[] {
+    const value = this._elem.getAttribute('class');
+    return value ? value.split(/\s+/).filter(Boolean) : [];
+  }
+
+  private _set(list: string[]): void {
+    // As in browsers, an empty list doesn't add a class attribute if there wasn't one.
+    if (list.length === 0 && !this._elem.hasAttribute('class')) { return; }
+    this._elem.setAttribute('class', list.join(' '));
+  }
+}
+
+// Converts e.g. "fontWeight" to "font-weight", leaving "font-weight" and "--custom-prop" as is.
+function toCssName(prop: string): string {
+  return prop.startsWith('--') ? prop : prop.replace(/[A-Z]/g, (c) => '-' + c.toLowerCase());
+}
+
+/**
+ * Creates an object that behaves like `element.style`, reading and writing the "style" attribute.
+ * Properties may be set in camelCase (`style.fontWeight = 'bold'`), or via `setProperty()`.
+ */
+function createStyle(elem: VElement): CSSStyleDeclaration {
+  function parse(): Map<string, string> {
+    const result = new Map<string, string>();
+    for (const decl of (elem.getAttribute('style') || '').split(';')) {
+      const colon = decl.indexOf(':');
+      if (colon > 0) { result.set(decl.slice(0, colon).trim(), decl.slice(colon + 1).trim()); }
+    }
+    return result;
+  }
+  function save(props: Map<string, string>) {
+    if (props.size === 0) {
+      elem.removeAttribute('style');
+    } else {
+      elem.setAttribute('style', Array.from(props, ([k, v]) => `${k}: ${v};`).join(' '));
+    }
+  }
+  function setProperty(name: string, value: string|null) {
+    const props = parse();
+    if (value === null || value === undefined || value === '') {
+      props.delete(name);
+    } else {
+      props.set(name, String(value));
+    }
+    save(props);
+  }
+  const methods: {[name: string]: any} = {
+    setProperty,
+    getPropertyValue: (name: string) => parse().get(name) || '',
+    removeProperty: (name: string) => {
+      const value = parse().get(name) || '';
+      setProperty(name, null);
+      return value;
+    },
+  };
+  return new Proxy({}, {
+    get(target, prop) {
+      if (typeof prop !== 'string') { return undefined; }
+      if (prop in methods) { return methods[prop]; }
+      if (prop === 'cssText') { return elem.getAttribute('style') || ''; }
+      return parse().get(toCssName(prop)) || '';
+    },
+    set(target, prop, value) {
+      if (typeof prop === 'string') {
+        if (prop === 'cssText') {
+          elem.setAttribute('style', value);
+        } else {
+          setProperty(toCssName(prop), value);
+        }
+      }
+      return true;
+    },
+  }) as CSSStyleDeclaration;
+}
+
+export class VElement extends VNode {
+  public readonly tagName: string;
+  private _attrs = new Map<string, string>();
+  private _classList?: VClassList;
+  private _style?: CSSStyleDeclaration;
+
+  constructor(doc: VDocument, public readonly localName: string, public readonly namespaceURI: string) {
+    super(doc);
+    this.tagName = (namespaceURI === HTML_NS) ? localName.toUpperCase() : localName;
+  }
+
+  public get nodeType() { return VNode.ELEMENT_NODE; }
+  public get nodeName() { return this.tagName; }
+
+  public get attributes(): Array<{name: string, value: string}> {
+    return Array.from(this._attrs, ([name, value]) => ({name, value}));
+  }
+
+  public getAttribute(name: string): string|null { return this._attrs.get(name) ?? null; }
+  public setAttribute(name: string, value: string): void { this._attrs.set(name, String(value)); }
+  public removeAttribute(name: string): void { this._attrs.delete(name); }
+  public hasAttribute(name: string): boolean { return this._attrs.has(name); }
+  public toggleAttribute(name: string, force?: boolean): boolean {
+    const value = (force === undefined) ? !this.hasAttribute(name) : force;
+    if (value) {
+      this.setAttribute(name, '');
+    } else {
+      this.removeAttribute(name);
+    }
+    return value;
+  }
+
+  public get id(): string { return this.getAttribute('id') || ''; }
+  public set id(value: string) { this.setAttribute('id', value); }
+  public get className(): string { return this.getAttribute('class') || ''; }
+  public set className(value: string) { this.setAttribute('class', value); }
+
+  public get classList(): VClassList {
+    return this._classList || (this._classList = new VClassList(this));
+  }
+
+  public get style(): CSSStyleDeclaration {
+    return this._style || (this._style = createStyle(this));
+  }
+
+  public get children(): VElement[] {
+    return this.childNodes.filter((n): n is VElement => n instanceof VElement);
+  }
+
+  public getElementsByTagName(tag: string): VElement[] { return getElementsByTagName(this, tag); }
+
+  public get innerHTML(): string {
+    return this.childNodes.map((n) => renderToString(n)).join('');
+  }
+
+  public get outerHTML(): string { return renderToString(this); }
+}
+
+export class VDocument extends VNode {
+  public readonly documentElement: VElement;
+  public readonly head: VElement;
+  public readonly body: VElement;
+  public defaultView: any = null;
+
+  constructor() {
+    super(null);
+    this.documentElement = this.appendChild(this.createElement('html'));
+    this.head = this.documentElement.appendChild(this.createElement('head'));
+    this.body = this.documentElement.appendChild(this.createElement('body'));
+  }
+
+  public get nodeType() { return VNode.DOCUMENT_NODE; }
+  public get nodeName() { return '#document'; }
+
+  public getElementsByTagName(tag: string): VElement[] { return getElementsByTagName(this, tag); }
+
+  public createElement(tag: string): VElement { return new VElement(this, tag.toLowerCase(), HTML_NS); }
+  public createElementNS(ns: string, tag: string): VElement { return new VElement(this, tag, ns); }
+  public createTextNode(data: string): VText { return new VText(this, String(data)); }
+  public createComment(data: string): VComment { return new VComment(this, String(data)); }
+  public createDocumentFragment(): VDocumentFragment { return new VDocumentFragment(this); }
+
+  protected _getDoc(): VDocument { return this; }
+}
+
+// Returns all descendant elements with the given tag name (or all of them for "*").
+function getElementsByTagName(node: VNode, tag: string): VElement[] {
+  const result: VElement[] = [];
+  const localName = tag.toLowerCase();
+  function walk(parent: VNode) {
+    for (let n = parent.firstChild; n; n = n.nextSibling) {
+      if (n instanceof VElement) {
+        if (tag === '*' || n.localName === localName) { result.push(n); }
+        walk(n);
+      }
+    }
+  }
+  walk(node);
+  return result;
+}
+
+/**
+ * Creates a new virtual document, and returns a window-like object suitable for `pushGlobals()`.
+ * Each call creates an independent document.
+ */
+export function createVirtualWindow(): IBrowserGlobalsLax {
+  const document = new VDocument();
+  const window: any = {
+    document,
+    Node: VNode,
+    Element: VElement,
+    DocumentFragment: VDocumentFragment,
+  };
+  window.window = window;
+  document.defaultView = window;
+  return window;
+}
+
+// As in browsers, non-breaking spaces are escaped, so that they are visible in the output.
+function escapeText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/\u00a0/g, '&nbsp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeAttr(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/\u00a0/g, '&nbsp;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Serializes a node to an HTML string. This works for nodes of the virtual document created with
+ * `createVirtualWindow()`, and also for nodes of a real (or jsdom) document.
+ *
+ * Elements, attributes, text, and comments (such as the markers used by `dom.domComputed()` and
+ * `dom.forEach()`) are included. For a `DocumentFragment` or a `Document`, its children are
+ * serialized.
+ */
+export function renderToString(node: Node|VNode): string {
+  const parts: string[] = [];
+  _render(node, parts, false);
+  return parts.join('');
+}
+
+function _render(node: Node|VNode, parts: string[], isRawText: boolean): void {
+  switch (node.nodeType) {
+    case VNode.ELEMENT_NODE: {
+      const elem = node as Element;
+      const tag = elem.localName;
+      parts.push('<', tag);
+      for (const {name, value} of Array.from(elem.attributes)) {
+        parts.push(' ', name, '="', escapeAttr(value), '"');
+      }
+      parts.push('>');
+      if (voidElements.has(tag) && elem.namespaceURI === HTML_NS) { return; }
+      _renderChildren(node, parts, rawTextElements.has(tag));
+      parts.push('</', tag, '>');
+      return;
+    }
+    case VNode.TEXT_NODE: {
+      const data = (node as CharacterData).data;
+      parts.push(isRawText ? data : escapeText(data));
+      return;
+    }
+    case VNode.COMMENT_NODE: {
+      parts.push('<!--', (node as CharacterData).data, '-->');
+      return;
+    }
+    case VNode.DOCUMENT_NODE:
+    case VNode.DOCUMENT_FRAGMENT_NODE: {
+      _renderChildren(node, parts, false);
+      return;
+    }
+  }
+}
+
+function _renderChildren(node: Node|VNode, parts: string[], isRawText: boolean): void {
+  for (let n = node.firstChild; n; n = n.nextSibling) {
+    _render(n, parts, isRawText);
+  }
+}
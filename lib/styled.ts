@@ -122,6 +122,18 @@ export function keyframes(styles: string): string {
   return (new KeyframePiece(styles)).className;
 }
 
+/**
+ * Returns the CSS text for all the styles created with `styled()` and `keyframes()` that have been
+ * added to the document. This is useful when rendering on the server (see `renderToString()`), to
+ * include the styles in the generated page, e.g. in a `<style>` element.
+ *
+ * Note that styles are added to the document all together on first use of any of them, and only
+ * once per process, so the result does not depend on which styles a particular page used.
+ */
+export function renderStyles(): string {
+  return StylePiece.getMountedSheets().join("\n\n");
+}
+
 function createCssRules(className: string, styles: string) {
   // The first time we encounter a nested section, we know which are the "main" rules, and can
   // wrap them appropriately.
@@ -148,6 +160,12 @@ class StylePiece {
   // Set of all StylePieces created but not yet mounted.
   private static _unmounted = new Set<StylePiece>();
 
+  // The CSS text of each batch of StylePieces mounted so far.
+  private static _mountedSheets: string[] = [];
+
+  // Returns the CSS text for all StylePieces mounted so far.
+  public static getMountedSheets(): string[] { return this._mountedSheets; }
+
   // Generate a new css class name. The suffix ensures that names like "&2" can't cause a conflict.
   private static _nextClassName() { return `_grain${getNextStyleNum()}_`; }
 
@@ -155,7 +173,12 @@ class StylePiece {
   private static _mountAll(): void {
     const sheet: string = Array.from(this._unmounted, (p) => p._createRules()).join("\n\n");
 
-    G.document.head!.appendChild(dom('style', sheet));
+    // The <style> element is created directly, so that it's never treated as part of the DOM
+    // rendered or hydrated by the application.
+    const style = G.document.createElement('style');
+    style.textContent = sheet;
+    G.document.head!.appendChild(style);
+    this._mountedSheets.push(sheet);
     for (const piece of this._unmounted) {
       piece._mounted = true;
     }
@@ -1,4 +1,5 @@
-import {DepItem} from './_computed_queue';
+import {bundleChanges, DepItem} from './_computed_queue';
+import {_debugRecomputed, _debugRegister, _debugUnregister, isDebugGraphEnabled, setDebugName} from './debugGraph';
 import {IDisposableOwner} from './dispose';
 import {Listener} from './emit';
 import {fromKo, IKnockoutReadObservable} from './kowrap';
@@ -26,6 +27,17 @@ export interface UseCBOwner extends UseCB {
   owner: IDisposableOwner;
 }
 
+/**
+ * Options for `subscribe()`. A string may be given in their place, as a shorthand for `{name}`.
+ *  - `name`: identifies the subscription when debugging (see `setDebugName()`).
+ *  - `sync`: if true, the callback gets called right away on changes, even when recomputes are
+ *    deferred with `setComputeSchedule()`.
+ */
+export interface ISubscribeOptions {
+  name?: string;
+  sync?: boolean;
+}
+
 interface IListenerWithInUse extends Listener {
   _inUse: boolean;
 }
@@ -70,7 +82,7 @@ export class Subscription {
   // The last owner argument is used by computed() to make itself available as the .owner property
   // of the 'use' function that gets passed to the callback.
   constructor(callback: (use: UseCB, ...args: any[]) => void, dependencies: ReadonlyArray<ISubscribable>, owner?: any) {
-    this._depItem = new DepItem(this._evaluate, this);
+    this._depItem = new DepItem(this._evaluate, this, owner);
     this._dependencies = dependencies.length > 0 ? dependencies : emptyArray;
     this._depListeners = dependencies.length > 0 ? dependencies.map((obs) => this._subscribeTo(obs)) : emptyArray;
     this._dynDeps = new Map();   // Maps dependent observable to its Listener object.
@@ -79,14 +91,20 @@ export class Subscription {
     if (owner) {
       (this._useFunc as UseCBOwner).owner = owner;
     }
+    if (isDebugGraphEnabled()) {
+      _debugRegister(owner || this, owner ? 'computed' : 'subscription', this);
+    }
 
-    this._evaluate();
+    // Evaluate inside a bundle, so that changes triggered while we subscribe to dependencies (e.g. a
+    // lazy computedArray activating) get recomputed after this evaluation rather than within it.
+    bundleChanges(() => this._evaluate());
   }
 
   /**
    * Disposes the computed, unsubscribing it from all observables it depends on.
    */
   public dispose() {
+    _debugUnregister(this);
     this._callback = null as any;
     for (const lis of this._depListeners) { lis.dispose(); }
     for (const lis of this._dynDeps.values()) { lis.dispose(); }
@@ -98,6 +116,14 @@ export class Subscription {
    */
   public _getDepItem(): DepItem { return this._depItem; }
 
+  /**
+   * For use by the debug registry: returns the observables this subscription currently depends on.
+   * @internal
+   */
+  public _getDebugDeps(): ISubscribableObs[] {
+    return [...this._dependencies, ...this._dynDeps.keys()];
+  }
+
   /**
    * Gets called when the callback calls `use(obs)` for an observable. It creates a
    * subscription to `obs` if one doesn't yet exist.
@@ -120,7 +146,11 @@ export class Subscription {
    * I.e. adds dynamic subscriptions created via `use(obs)`, and disposes those no longer used.
    */
   private _evaluate() {
-    if (this._callback === null) { return; }      // Means this Subscription has been disposed.
+    // No callback means this Subscription has been disposed, or is still being constructed (a
+    // dependency, such as a PureComputed getting activated, may trigger a recompute while we
+    // subscribe to it; the constructor evaluates the callback afterwards anyway).
+    if (!this._callback) { return; }
+    if (isDebugGraphEnabled()) { _debugRecomputed(this); }
     try {
       // Note that this is faster than using .map().
       const readArgs: [UseCB, ...any[]] = [this._useFunc];
@@ -168,32 +198,40 @@ export class Subscription {
  * @param callback - will be called with arguments `(use, ...values)`, i.e. the
  *    `use` function and values for all of the `...observables` that precede this argument.
  *    This callback is called immediately, and whenever any dependency changes.
+ * @param options - Optional `ISubscribeOptions`, or a name to identify the subscription when
+ *    debugging (see `setDebugName()`).
  * @returns The new `Subscription` which may be disposed to unsubscribe.
  */
-export function subscribe(cb: (use: UseCB) => void): Subscription;
+export function subscribe(cb: (use: UseCB) => void, options?: string|ISubscribeOptions): Subscription;
 
 export function subscribe<A>(
     a: Obs<A>,
-    cb: (use: UseCB, a: A) => void): Subscription;
+    cb: (use: UseCB, a: A) => void, options?: string|ISubscribeOptions): Subscription;
 
 export function subscribe<A, B>(
     a: Obs<A>, b: Obs<B>,
-    cb: (use: UseCB, a: A, b: B) => void): Subscription;
+    cb: (use: UseCB, a: A, b: B) => void, options?: string|ISubscribeOptions): Subscription;
 
 export function subscribe<A, B, C>(
     a: Obs<A>, b: Obs<B>, c: Obs<C>,
-    cb: (use: UseCB, a: A, b: B, c: C) => void): Subscription;
+    cb: (use: UseCB, a: A, b: B, c: C) => void, options?: string|ISubscribeOptions): Subscription;
 
 export function subscribe<A, B, C, D>(
     a: Obs<A>, b: Obs<B>, c: Obs<C>, d: Obs<D>,
-    cb: (use: UseCB, a: A, b: B, c: C, d: D) => void): Subscription;
+    cb: (use: UseCB, a: A, b: B, c: C, d: D) => void, options?: string|ISubscribeOptions): Subscription;
 
 export function subscribe<A, B, C, D, E>(
     a: Obs<A>, b: Obs<B>, c: Obs<C>, d: Obs<D>, e: Obs<E>,
-    cb: (use: UseCB, a: A, b: B, c: C, d: D, e: E) => void): Subscription;
+    cb: (use: UseCB, a: A, b: B, c: C, d: D, e: E) => void, options?: string|ISubscribeOptions): Subscription;
 
 export function subscribe(...args: any[]): Subscription {
+  const last = args[args.length - 1];
+  const options: ISubscribeOptions = typeof last === 'string' ? {name: args.pop()} :
+    typeof last !== 'function' ? args.pop() || {} : {};
   const cb = args.pop();
   // The cast helps ensure that Observable is compatible with ISubscribable abstraction that we use.
-  return new Subscription(cb, args as Array<Obs<any>>);
+  const sub = new Subscription(cb, args as Array<Obs<any>>);
+  if (options.name !== undefined) { setDebugName(sub, options.name); }
+  if (options.sync) { sub._getDepItem().setSync(true); }
+  return sub;
 }
@@ -0,0 +1,166 @@
+/**
+ * Observables that follow another observable with a delay: `debounced()`, `throttled()`, and
+ * `delayed()`. E.g. to search only once the user pauses typing:
+ * ```ts
+ * const query = Observable.create(owner, '');
+ * const searchQuery = debounced(owner, query, 300);
+ * dom.domComputed(searchQuery, (q) => buildResults(q));
+ * ```
+ *
+ * Each of them starts out with the source observable's current value. Their values are set with
+ * a regular `set()`, so changes propagate to computeds and subscriptions as usual. Disposing one
+ * clears its pending timers.
+ */
+
+import {IDisposableOwnerT, setDisposeOwner} from './dispose';
+import {Listener} from './emit';
+import {BaseObservable} from './observable';
+
+/**
+ * The timer functions used by timed observables. Tests may pass in their own to control time
+ * without real timers.
+ */
+export interface IClock {
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+/**
+ * The default clock, which uses the global `setTimeout()` and `clearTimeout()`.
+ */
+export const realClock: IClock = {
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as any),
+};
+
+/**
+ * Options for `debounced()`, `throttled()`, and `delayed()`.
+ *  - `clock`: the timer functions to use, `realClock` by default.
+ */
+export interface ITimedObsOptions {
+  clock?: IClock;
+}
+
+/**
+ * How a `TimedObservable` follows its source:
+ *  - `'debounce'`: takes the latest value once the source stops changing for `ms`.
+ *  - `'throttle'`: takes a change right away, then at most one value per `ms`, ending with the
+ *    latest one.
+ *  - `'delay'`: takes each value `ms` after the source got it.
+ */
+export type TimedObsMode = 'debounce' | 'throttle' | 'delay';
+
+/**
+ * An observable whose value follows a source observable in time, as determined by its mode. It's
+ * created with `debounced()`, `throttled()`, or `delayed()`.
+ */
+export class TimedObservable<T> extends BaseObservable<T> {
+  private _listener: Listener;
+  private _clock: IClock;
+  private _timers = new Set<unknown>();
+  private _throttleTimer: unknown = null;      // Set while a throttle window is open.
+  private _pending: {value: T}|null = null;     // The latest value not yet taken, if any.
+
+  constructor(
+    source: BaseObservable<T>, private _mode: TimedObsMode, private _ms: number, options: ITimedObsOptions = {},
+  ) {
+    super(source.get());
+    this._clock = options.clock || realClock;
+    this._listener = source.addListener(this._onSourceChange, this);
+  }
+
+  /**
+   * Returns whether a value from the source is waiting to be taken.
+   */
+  public isPending(): boolean {
+    return this._mode === 'throttle' ? this._pending !== null : this._timers.size > 0;
+  }
+
+  /**
+   * Clears timers and stops following the source.
+   */
+  public dispose(): void {
+    for (const timer of this._timers) { this._clock.clearTimeout(timer); }
+    this._timers.clear();
+    this._pending = null;
+    this._listener.dispose();
+    super.dispose();
+  }
+
+  private _onSourceChange(value: T) {
+    switch (this._mode) {
+      case 'debounce':
+        for (const timer of this._timers) { this._clock.clearTimeout(timer); }
+        this._timers.clear();
+        this._startTimer(() => this.set(value));
+        break;
+      case 'throttle':
+        if (this._throttleTimer === null) {
+          this.set(value);
+          this._startThrottleWindow();
+        } else {
+          this._pending = {value};
+        }
+        break;
+      case 'delay':
+        this._startTimer(() => this.set(value));
+        break;
+    }
+  }
+
+  // At the end of each throttle window, takes the latest value, if any, and opens a new window.
+  private _startThrottleWindow() {
+    this._throttleTimer = this._startTimer(() => {
+      this._throttleTimer = null;
+      const pending = this._pending;
+      if (pending) {
+        this._pending = null;
+        this._startThrottleWindow();
+        this.set(pending.value);
+      }
+    });
+  }
+
+  private _startTimer(callback: () => void): unknown {
+    const timer = this._clock.setTimeout(() => {
+      this._timers.delete(timer);
+      callback();
+    }, this._ms);
+    this._timers.add(timer);
+    return timer;
+  }
+}
+
+/**
+ * Creates an observable that takes the value of `source` once it stops changing for `ms`
+ * milliseconds. It's useful e.g. to react to a search box only once the user pauses typing.
+ */
+export function debounced<T>(
+  owner: IDisposableOwnerT<TimedObservable<T>>|null, source: BaseObservable<T>, ms: number,
+  options?: ITimedObsOptions,
+): TimedObservable<T> {
+  return setDisposeOwner(owner, new TimedObservable<T>(source, 'debounce', ms, options));
+}
+
+/**
+ * Creates an observable that takes the value of `source` right away when it changes, and then at
+ * most once every `ms` milliseconds while it keeps changing, ending with its latest value. It's
+ * useful e.g. to react to resizing or scrolling.
+ */
+export function throttled<T>(
+  owner: IDisposableOwnerT<TimedObservable<T>>|null, source: BaseObservable<T>, ms: number,
+  options?: ITimedObsOptions,
+): TimedObservable<T> {
+  return setDisposeOwner(owner, new TimedObservable<T>(source, 'throttle', ms, options));
+}
+
+/**
+ * Creates an observable that takes each value of `source` `ms` milliseconds after the source
+ * gets it.
+ */
+export function delayed<T>(
+  owner: IDisposableOwnerT<TimedObservable<T>>|null, source: BaseObservable<T>, ms: number,
+  options?: ITimedObsOptions,
+): TimedObservable<T> {
+  return setDisposeOwner(owner, new TimedObservable<T>(source, 'delay', ms, options));
+}
@@ -58,3 +58,47 @@ export function bindBU<R>(func: (...args: any[]) => R, b: any[]): (arg: any) =>
     default: return (arg) => func(...b, arg);
   }
 }
+
+/**
+ * Compares two values one level deep: arrays item by item, plain objects key by key, and Maps and
+ * Sets by their entries, comparing the parts with `Object.is()`. Other values are compared with
+ * `Object.is()` too. Useful with `withEquals()` for computeds that build new arrays or objects on
+ * each evaluation.
+ */
+export function shallowEqual(a: any, b: any): boolean {
+  return _equal(a, b, Object.is);
+}
+
+/**
+ * Compares two values structurally: as `shallowEqual()`, but recursively. Dates are compared by
+ * time. It does not handle cyclic structures.
+ */
+export function deepEqual(a: any, b: any): boolean {
+  return _equal(a, b, deepEqual);
+}
+
+function _equal(a: any, b: any, eq: (a: any, b: any) => boolean): boolean {
+  if (Object.is(a, b)) { return true; }
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object') { return false; }
+  if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) { return false; }
+  if (Array.isArray(a)) {
+    return a.length === b.length && a.every((item, i) => eq(item, b[i]));
+  }
+  if (a instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  if (a instanceof Map) {
+    if (a.size !== b.size) { return false; }
+    for (const [key, val] of a) {
+      if (!b.has(key) || !eq(val, b.get(key))) { return false; }
+    }
+    return true;
+  }
+  if (a instanceof Set) {
+    return a.size === b.size && [...a].every((item) => b.has(item));
+  }
+  if (Object.getPrototypeOf(a) !== Object.prototype && Object.getPrototypeOf(a) !== null) { return false; }
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length &&
+    keys.every((key) => Object.prototype.hasOwnProperty.call(b, key) && eq(a[key], b[key]));
+}
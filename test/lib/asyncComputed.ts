@@ -0,0 +1,130 @@
+import {asyncComputed} from '../../lib/asyncComputed';
+import {Disposable} from '../../lib/dispose';
+import {observable} from '../../lib/observable';
+
+import {assert} from 'chai';
+import * as sinon from 'sinon';
+
+interface IDeferred<T> {
+  promise: Promise<T>;
+  resolve: (value: T) => void;
+  reject: (err: unknown) => void;
+}
+
+// Returns a promise along with functions to resolve or reject it.
+function deferred<T>(): IDeferred<T> {
+  const result = {} as IDeferred<T>;
+  result.promise = new Promise<T>((resolve, reject) => Object.assign(result, {resolve, reject}));
+  return result;
+}
+
+// Waits for pending promise callbacks to run.
+function flush() {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe('asyncComputed', function() {
+  it('should reflect value, status, and error of the latest call', async function() {
+    const id = observable(1);
+    const calls: Array<{id: number, signal: AbortSignal, d: IDeferred<string>}> = [];
+    const comp = asyncComputed(null, (use, signal) => {
+      const d = deferred<string>();
+      calls.push({id: use(id), signal, d});
+      return d.promise;
+    });
+    assert.equal(calls.length, 1);
+    assert.equal(comp.status.get(), 'pending');
+    assert.equal(comp.value.get(), undefined);
+
+    calls[0].d.resolve("one");
+    await flush();
+    assert.equal(comp.status.get(), 'ready');
+    assert.equal(comp.value.get(), "one");
+    assert.equal(comp.error.get(), undefined);
+
+    // A change to a dependency calls the callback again, keeping the previous value meanwhile.
+    id.set(2);
+    assert.equal(calls.length, 2);
+    assert.equal(calls[1].id, 2);
+    assert.equal(comp.status.get(), 'pending');
+    assert.equal(comp.value.get(), "one");
+
+    calls[1].d.reject(new Error("failed"));
+    await flush();
+    assert.equal(comp.status.get(), 'error');
+    assert.equal((comp.error.get() as Error).message, "failed");
+    assert.equal(comp.value.get(), "one");
+
+    id.set(3);
+    calls[2].d.resolve("three");
+    await flush();
+    assert.equal(comp.status.get(), 'ready');
+    assert.equal(comp.value.get(), "three");
+    assert.equal(comp.error.get(), undefined);
+    comp.dispose();
+  });
+
+  it('should abort the previous signal and ignore stale results', async function() {
+    const id = observable(1);
+    const calls: Array<{signal: AbortSignal, d: IDeferred<number>}> = [];
+    const comp = asyncComputed(null, (use, signal) => {
+      use(id);
+      const d = deferred<number>();
+      calls.push({signal, d});
+      return d.promise;
+    });
+    const statusSpy = sinon.spy();
+    comp.status.addListener(statusSpy);
+
+    id.set(2);
+    assert.isTrue(calls[0].signal.aborted);
+    assert.isFalse(calls[1].signal.aborted);
+
+    // The stale call resolving has no effect.
+    calls[0].d.resolve(10);
+    await flush();
+    assert.equal(comp.status.get(), 'pending');
+    assert.equal(comp.value.get(), undefined);
+
+    calls[1].d.resolve(20);
+    calls[0].d.reject(new Error("late"));
+    await flush();
+    assert.equal(comp.status.get(), 'ready');
+    assert.equal(comp.value.get(), 20);
+    assert.equal(comp.error.get(), undefined);
+    sinon.assert.calledOnce(statusSpy);
+    comp.dispose();
+  });
+
+  it('should treat a synchronous exception as an error', async function() {
+    const comp = asyncComputed<number>(null, () => { throw new Error("sync"); });
+    assert.equal(comp.status.get(), 'pending');
+    await flush();
+    assert.equal(comp.status.get(), 'error');
+    assert.equal((comp.error.get() as Error).message, "sync");
+    comp.dispose();
+  });
+
+  it('should clean up on disposal', async function() {
+    class Owner extends Disposable {}
+    const owner = Owner.create(null);
+    const id = observable(1);
+    const spy = sinon.spy();
+    let lastSignal!: AbortSignal;
+    let resolveLast!: (value: number) => void;
+    const comp = asyncComputed(owner, (use, signal) => {
+      spy(use(id));
+      lastSignal = signal;
+      return new Promise<number>((resolve) => { resolveLast = resolve; });
+    });
+    owner.dispose();
+    assert.isTrue(comp.isDisposed());
+    assert.isTrue(lastSignal.aborted);
+
+    // Dependencies no longer trigger calls, and a pending result is ignored.
+    id.set(2);
+    sinon.assert.calledOnce(spy);
+    resolveLast(5);
+    await flush();
+  });
+});
@@ -6,6 +6,8 @@
 const {observable, bundleChanges} = require('../../lib/observable');
 const {computed} = require('../../lib/computed');
 const {pureComputed} = require('../../lib/pureComputed');
+const {subscribe} = require('../../lib/subscribe');
+const {setDebugName} = require('../../lib/debugGraph');
 const _computed_queue = require('../../lib/_computed_queue');
 
 const _ = require('lodash');
@@ -167,34 +169,25 @@ function testComputed(computed) {
     assert.deepEqual(spy3.returnValues, ["xa:xb:xc", "ya:yb:yc"]);
   });
 
-  it('should not cause infinite loops with circular dependencies', function() {
+  it('should report an error for circular dependencies that keep changing', function() {
     // Create two observables that depend on each other.
     let x = observable("x"), t = observable("t");
     let y = computed(use => (use(x) || use(z)).toUpperCase());
     let z = computed(use => use(y) + use(t));
+    setDebugName(y, "y");
+    setDebugName(z, "z");
 
     assert.strictEqual(y.get(), "X");
     assert.strictEqual(z.get(), "Xt");
 
-    x.set("");
-    assert.strictEqual(y.get(), "XT");
-    assert.strictEqual(z.get(), "XTt");
-    // Note that although y depends on z, it does not get updated more than once.
-
-    // Another change to x: y picks up z's new value, but again is only updated once.
-    x.set(false);
-    assert.strictEqual(y.get(), "XTT");
-    assert.strictEqual(z.get(), "XTTt");
+    // Once y depends on z, each recompute of one changes the other, so they never settle. This
+    // stops with an error naming them.
+    assert.throws(() => x.set(""), /^Dependency cycle: recomputed more than 100 times in one update: y, z$/);
 
-    // Cause a change to z: z is updated first, and y second, neither is updated more than once.
-    t.set("u");
-    assert.strictEqual(z.get(), "XTTu");
-    assert.strictEqual(y.get(), "XTTU");
-
-    // Set x: y is updated first again, and z second, and y no longer depends on z.
+    // Set x: y no longer depends on z, and updates work normally.
     x.set("a");
     assert.strictEqual(y.get(), "A");
-    assert.strictEqual(z.get(), "Au");
+    assert.strictEqual(z.get(), "At");
 
     // Check that y no longer depends on z.
     t.set('s');
@@ -202,6 +195,51 @@ function testComputed(computed) {
     assert.strictEqual(y.get(), "A");   // Unchanged.
   });
 
+  it('should not count items dropped by a cycle error towards later updates', function() {
+    let x = observable("x"), t = observable("t");
+    let y = computed(use => (use(x) || use(z)).toUpperCase());
+    let z = computed(use => use(y) + use(t));
+    // A long chain of computeds depending on x, the end of which is still waiting in the queue
+    // when the cycle gets stopped.
+    let last = x;
+    for (let i = 0; i < 300; i++) {
+      const prev = last;
+      last = computed(use => use(prev));
+    }
+    assert.throws(() => x.set(""), /^Dependency cycle: /);
+
+    // Many more updates than the cycle limit work normally.
+    for (let i = 0; i < 150; i++) {
+      x.set(`a${i}`);
+    }
+    assert.strictEqual(last.get(), "a149");
+    assert.strictEqual(z.get(), "A149t");
+  });
+
+  it('should allow circular dependencies that settle', function() {
+    let x = observable("x");
+    let spy = sinon.spy(use => use(x) || use(z));
+    let y = computed(spy);
+    let z = computed(use => use(y).toUpperCase());
+    assert.strictEqual(z.get(), "X");
+
+    // y picks up z's value, and z gets recomputed without changing, so the values settle.
+    x.set("");
+    assert.strictEqual(y.get(), "X");
+    assert.strictEqual(z.get(), "X");
+    assert.deepEqual(spy.returnValues, ["x", "X"]);
+  });
+
+  it('should recompute again when a dependency changes after a recompute', function() {
+    let amount = observable(0), discount = observable(0);
+    let spy = sinon.spy(use => use(amount) - use(discount));
+    let total = computed(spy);
+    subscribe(amount, (use, a) => discount.set(a >= 100 ? 5 : 0));
+    amount.set(200);
+    assert.strictEqual(total.get(), 195);
+    assert.deepEqual(spy.returnValues, [0, 200, 195]);
+  });
+
   it('should respect bundleChanges', function() {
     let x = observable("x0"), y = observable("y0");
     let spy1 = sinon.spy(val => val);
@@ -259,19 +297,12 @@ function testComputed(computed) {
     assert.deepEqual([a,b,b2,c,d].map(x => x.get()), ['z', 'y', 'Y', 'z+Y', 'Z+Y']);
     assert.deepEqual([a,b,b2,c,d].map(x => _priority(x)), [0,0,1,2,3]);
 
-    // Check that in an infinite loop/circular situation, _priorities stay stable.
+    // Check that an infinite loop/circular situation produces an error.
     // We override a to depend on d, and c will depend on the new a once it's recomputed.
     a = computed(use => 'a' + use(d));
     assert.deepEqual([a,b,b2,c,d].map(x => x.get()), ['aZ+Y', 'y', 'Y', 'z+Y', 'Z+Y']);
     assert.deepEqual([a,b,b2,c,d].map(x => _priority(x)), [4,0,1,2,3]);
-    b.set('b');
-    assert.deepEqual([a,b,b2,c,d].map(x => x.get()), ['aAZ+Y+B', 'b', 'B', 'aZ+Y+B', 'AZ+Y+B']);
-    assert.deepEqual([a,b,b2,c,d].map(x => _priority(x)), [7,0,1,5,6]);
-    b.set('u');
-    // NOTE: It would be better if such an update didn't cause all circular priorities to
-    // increase, but this isn't critical and doesn't seem worth increasing complexity for it.
-    assert.deepEqual([a,b,b2,c,d].map(x => x.get()), ['aAAZ+Y+B+U', 'u', 'U', 'aAZ+Y+B+U', 'AAZ+Y+B+U']);
-    assert.deepEqual([a,b,b2,c,d].map(x => _priority(x)), [10,0,1,8,9]);
+    assert.throws(() => b.set('b'), /^Dependency cycle: /);
   });
 
   it('should work for complex dependency graphs', function() {
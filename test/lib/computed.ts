@@ -1,6 +1,7 @@
 import {assert} from 'chai';
 import * as sinon from 'sinon';
-import {Computed, MultiHolder, Observable} from '../../index';
+import {BaseComputed, bundleChanges, Computed, computed, flushSync, getDebugName, IComputedOptions, MultiHolder,
+  Observable, pureComputed, setComputeErrorHandler, setComputeSchedule, subscribe} from '../../index';
 
 describe('computed', function() {
 
@@ -45,4 +46,250 @@ describe('computed', function() {
     assert.strictEqual(spy1.callCount, 4);   // No new calls
     assert.strictEqual(spy2.callCount, 4);   // No new calls
   });
+
+  describe('errors in recomputes', function() {
+    afterEach(function() {
+      setComputeErrorHandler(null);
+    });
+
+    function setup() {
+      const x = Observable.create(null, 1);
+      const failing = Computed.create(null, (use) => {
+        if (use(x) < 0) { throw new Error(`negative: ${use(x)}`); }
+        return use(x);
+      });
+      const double = Computed.create(null, (use) => use(x) * 2);
+      const spy = sinon.spy();
+      const sub = subscribe(x, (use, val) => spy(val));
+      spy.resetHistory();
+      return {x, failing, double, spy, sub};
+    }
+
+    it('should update other items, and rethrow the first error without a handler', function() {
+      const {x, failing, double, spy} = setup();
+      assert.throws(() => x.set(-1), /negative: -1/);
+
+      // The failing computed keeps its value and records the error; others got updated.
+      assert.strictEqual(failing.get(), 1);
+      assert.match(String(failing.getError()), /negative: -1/);
+      assert.strictEqual(double.get(), -2);
+      sinon.assert.calledOnceWithExactly(spy, -1);
+
+      // Once it succeeds again, the error is cleared.
+      x.set(2);
+      assert.strictEqual(failing.get(), 2);
+      assert.strictEqual(failing.getError(), undefined);
+      assert.strictEqual(double.get(), 4);
+    });
+
+    it('should pass errors to the global handler', function() {
+      const {x, failing, double, spy, sub} = setup();
+      const handler = sinon.spy();
+      setComputeErrorHandler(handler);
+
+      bundleChanges(() => x.set(-5));
+      assert.strictEqual(double.get(), -10);
+      sinon.assert.calledOnceWithExactly(spy, -5);
+      sinon.assert.calledOnce(handler);
+      assert.strictEqual(handler.args[0][0], failing.getError());
+      assert.strictEqual(handler.args[0][1], failing);
+      handler.resetHistory();
+
+      // Errors in subscriptions are reported with the subscription as the source.
+      const badSub = subscribe(x, (use, val) => {
+        if (val > 10) { throw new Error("too big"); }
+      });
+      x.set(20);
+      assert.deepEqual(handler.args.map((args) => [String(args[0]), args[1]]), [["Error: too big", badSub]]);
+      assert.strictEqual(failing.get(), 20);
+      sub.dispose();
+      badSub.dispose();
+    });
+
+    it('should pass dependency cycles to the handler along with other errors', function() {
+      const {x, failing, sub} = setup();
+      const y: Computed<number> = Computed.create(null, (use) => use(x) < 0 ? use(z) + 1 : 0);
+      const z: Computed<number> = Computed.create(null, (use) => use(y) + 1);
+      const handler = sinon.spy();
+      setComputeErrorHandler(handler);
+
+      x.set(-1);
+      const messages = handler.args.map((args) => String(args[0])).sort();
+      assert.match(messages[0], /^Error: Dependency cycle: /);
+      assert.equal(messages[1], "Error: negative: -1");
+      assert.strictEqual(handler.args.find((args) => /negative/.test(String(args[0])))![1], failing);
+      assert.include([y, z], handler.args.find((args) => /cycle/.test(String(args[0])))![1]);
+
+      // Updates work normally once the cycle is broken.
+      x.set(1);
+      assert.strictEqual(y.get(), 0);
+      assert.strictEqual(z.get(), 1);
+      sub.dispose();
+    });
+  });
+
+  describe('captureErrors option', function() {
+    type MakeComputed = (x: Observable<number>, cb: (val: number) => number,
+      options: IComputedOptions) => BaseComputed<number>;
+
+    function checkCapture(makeComputed: MakeComputed) {
+      const x = Observable.create(null, 1);
+      const comp = makeComputed(x, (val) => {
+        if (val < 0) { throw new Error(`negative: ${val}`); }
+        return val;
+      }, {captureErrors: true, name: "comp"});
+      assert.equal(getDebugName(comp), "comp");
+
+      // A dependent sees the error through use(); other dependents on the error observable can
+      // render something else.
+      const spy = sinon.spy();
+      const view = computed((use) => use(comp.error) ? `error: ${use(comp.error)}` : `value: ${use(comp)}`);
+      const sub = subscribe((use) => {
+        try {
+          spy(use(comp));
+        } catch (e) {
+          spy(String(e));
+        }
+      });
+      assert.equal(view.get(), "value: 1");
+      spy.resetHistory();
+
+      // Setting x doesn't throw; the error gets captured.
+      x.set(-1);
+      assert.throws(() => comp.get(), /negative: -1/);
+      assert.match(String(comp.getError()), /negative: -1/);
+      assert.equal(view.get(), "error: Error: negative: -1");
+      sinon.assert.calledOnceWithExactly(spy, "Error: negative: -1");
+      spy.resetHistory();
+
+      // When it recovers, dependents get recomputed even if the value is the same as before.
+      x.set(1);
+      assert.equal(comp.get(), 1);
+      assert.strictEqual(comp.error.get(), undefined);
+      assert.equal(view.get(), "value: 1");
+      sinon.assert.calledOnceWithExactly(spy, 1);
+
+      sub.dispose();
+      view.dispose();
+      comp.dispose();
+      assert.isTrue(comp.error.isDisposed());
+    }
+
+    it('should capture errors for Computed', function() {
+      checkCapture((x, cb, options) => computed(x, (use, val) => cb(val), options));
+
+      // Errors in the first evaluation are captured too.
+      const comp = Computed.create(null, () => { throw new Error("fail"); }, {captureErrors: true});
+      assert.throws(() => comp.get(), /fail/);
+      assert.match(String(comp.error.get()), /fail/);
+    });
+
+    it('should capture errors for PureComputed', function() {
+      checkCapture((x, cb, options) => pureComputed(x, (use, val) => cb(val), options));
+
+      // An inactive PureComputed captures errors too.
+      const x = Observable.create(null, 1);
+      const comp = pureComputed(x, (use, val) => {
+        if (val < 0) { throw new Error("negative"); }
+        return val;
+      }, {captureErrors: true});
+      assert.equal(comp.get(), 1);
+      x.set(-1);
+      assert.throws(() => comp.get(), /negative/);
+      assert.match(String(comp.getError()), /negative/);
+      x.set(2);
+      assert.equal(comp.get(), 2);
+      assert.strictEqual(comp.getError(), undefined);
+    });
+
+    it('should propagate errors without the option', function() {
+      const x = Observable.create(null, 1);
+      const comp = pureComputed(x, (use, val) => {
+        if (val < 0) { throw new Error("negative"); }
+        return val;
+      });
+      x.set(-1);
+      assert.throws(() => comp.get(), /negative/);
+      assert.match(String(comp.error.get()), /negative/);
+    });
+  });
+
+  describe('compute schedule', function() {
+    afterEach(function() {
+      setComputeSchedule('sync');
+    });
+
+    function setup() {
+      const x = Observable.create(null, 1);
+      const spy = sinon.spy();
+      const double = Computed.create(null, (use) => use(x) * 2);
+      const sub = subscribe(double, (use, val) => spy(val));
+      spy.resetHistory();
+      return {x, double, spy, sub};
+    }
+
+    it('should defer recomputes to a custom scheduler', function() {
+      const {x, double, spy, sub} = setup();
+      const flushes: Array<() => void> = [];
+      setComputeSchedule((flush) => flushes.push(flush));
+
+      // Changes are visible right away, but dependents wait for the flush, which is scheduled once.
+      x.set(2);
+      x.set(3);
+      assert.strictEqual(x.get(), 3);
+      assert.strictEqual(double.get(), 2);
+      sinon.assert.notCalled(spy);
+      assert.lengthOf(flushes, 1);
+
+      flushes[0]();
+      assert.strictEqual(double.get(), 6);
+      sinon.assert.calledOnceWithExactly(spy, 6);
+      spy.resetHistory();
+
+      // flushSync() recomputes right away; the scheduled flush then has nothing to do.
+      x.set(4);
+      assert.lengthOf(flushes, 2);
+      flushSync();
+      sinon.assert.calledOnceWithExactly(spy, 8);
+      flushes[1]();
+      sinon.assert.calledOnce(spy);
+
+      // Switching back to 'sync' flushes anything pending.
+      x.set(5);
+      setComputeSchedule('sync');
+      assert.strictEqual(double.get(), 10);
+      sub.dispose();
+      double.dispose();
+    });
+
+    it('should recompute sync subscriptions right away', function() {
+      const {x, double, spy, sub} = setup();
+      setComputeSchedule(() => { /* never flush */ });
+      const syncSpy = sinon.spy();
+      const syncSub = subscribe(x, (use, val) => syncSpy(val), {sync: true, name: "syncSub"});
+      assert.strictEqual(getDebugName(syncSub), "syncSub");
+      syncSpy.resetHistory();
+
+      x.set(7);
+      sinon.assert.calledOnceWithExactly(syncSpy, 7);
+      sinon.assert.notCalled(spy);
+      flushSync();
+      sinon.assert.calledOnceWithExactly(spy, 14);
+      assert.strictEqual(double.get(), 14);
+      syncSub.dispose();
+      sub.dispose();
+      double.dispose();
+    });
+
+    it('should support microtask scheduling', async function() {
+      const {x, spy, sub} = setup();
+      setComputeSchedule('microtask');
+      x.set(2);
+      x.set(3);
+      sinon.assert.notCalled(spy);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      sinon.assert.calledOnceWithExactly(spy, 6);
+      sub.dispose();
+    });
+  });
 });
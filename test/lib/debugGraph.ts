@@ -0,0 +1,218 @@
+import {computed, Computed} from '../../lib/computed';
+import {debugGraphToDot, debugGraphToJSON, disableDebugGraph, enableDebugGraph, getDebugGraph, getDebugName,
+  setDebugName} from '../../lib/debugGraph';
+import {bundleChanges, formatComputeTrace, IComputeTrace, Observable, observable, setComputeTrace} from '../../lib/observable';
+import {pureComputed} from '../../lib/pureComputed';
+import {subscribe, UseCB} from '../../lib/subscribe';
+
+import {assert} from 'chai';
+import * as sinon from 'sinon';
+
+describe('debugGraph', function() {
+  afterEach(function() {
+    disableDebugGraph();
+  });
+
+  // Returns the graph with ids replaced by names, for easier comparisons.
+  function namedGraph() {
+    const nodes = getDebugGraph();
+    const names = new Map(nodes.map((n) => [n.id, n.name || `#${n.kind}`]));
+    return nodes.map((n) => ({
+      name: names.get(n.id),
+      kind: n.kind,
+      deps: n.deps.map((id) => names.get(id)),
+      dependents: n.dependents.map((id) => names.get(id)),
+      recomputes: n.recomputes,
+    }));
+  }
+
+  it('should not record anything unless enabled', function() {
+    const obs = observable(1);
+    const comp = computed((use) => use(obs) * 2);
+    assert.deepEqual(getDebugGraph(), []);
+    enableDebugGraph();
+    assert.deepEqual(getDebugGraph(), []);
+    comp.dispose();
+  });
+
+  it('should record dependencies, dependents, and recompute counts', function() {
+    enableDebugGraph();
+    const a = observable(1);
+    const b = observable(2);
+    const toggle = observable(true);
+    setDebugName(a, "a");
+    setDebugName(b, "b");
+    setDebugName(toggle, "toggle");
+    const sum = computed(a, (use, aVal) => use(toggle) ? aVal + use(b) : aVal);
+    setDebugName(sum, "sum");
+    const sub = subscribe(sum, () => undefined);
+    setDebugName(sub, "sub");
+
+    assert.deepEqual(namedGraph(), [
+      {name: "a", kind: 'observable', deps: [], dependents: ["sum"], recomputes: 0},
+      {name: "b", kind: 'observable', deps: [], dependents: ["sum"], recomputes: 0},
+      {name: "toggle", kind: 'observable', deps: [], dependents: ["sum"], recomputes: 0},
+      {name: "sum", kind: 'computed', deps: ["a", "toggle", "b"], dependents: ["sub"], recomputes: 1},
+      {name: "sub", kind: 'subscription', deps: ["sum"], dependents: [], recomputes: 1},
+    ]);
+
+    // Dynamic dependencies are reflected as they change.
+    a.set(5);
+    toggle.set(false);
+    assert.deepEqual(namedGraph().slice(1), [
+      {name: "b", kind: 'observable', deps: [], dependents: [], recomputes: 0},
+      {name: "toggle", kind: 'observable', deps: [], dependents: ["sum"], recomputes: 0},
+      {name: "sum", kind: 'computed', deps: ["a", "toggle"], dependents: ["sub"], recomputes: 3},
+      {name: "sub", kind: 'subscription', deps: ["sum"], dependents: [], recomputes: 3},
+    ]);
+
+    // Disposed objects are removed.
+    sub.dispose();
+    sum.dispose();
+    assert.deepEqual(namedGraph().map((n) => n.name), ["a", "b", "toggle"]);
+  });
+
+  it('should record active pureComputeds as computeds', function() {
+    enableDebugGraph();
+    const a = observable(1);
+    setDebugName(a, "a");
+    const spy = sinon.spy((use: UseCB) => use(a) + 1);
+    const pure = pureComputed(spy);
+    setDebugName(pure, "pure");
+    assert.equal(pure.get(), 2);
+    assert.deepEqual(namedGraph(), [
+      {name: "a", kind: 'observable', deps: [], dependents: [], recomputes: 0},
+      {name: "pure", kind: 'observable', deps: [], dependents: [], recomputes: 0},
+    ]);
+    const sub = subscribe((use) => use(pure));
+    setDebugName(sub, "sub");
+    a.set(2);
+    // Evaluations of an active pureComputed are counted, including the one on activation.
+    sinon.assert.callCount(spy, 3);
+    assert.deepEqual(namedGraph(), [
+      {name: "a", kind: 'observable', deps: [], dependents: ["pure"], recomputes: 0},
+      {name: "pure", kind: 'computed', deps: ["a"], dependents: ["sub"], recomputes: 2},
+      {name: "sub", kind: 'subscription', deps: ["pure"], dependents: [], recomputes: 2},
+    ]);
+    sub.dispose();
+  });
+
+  it('should include unrecorded dependencies', function() {
+    const a = observable(1);
+    setDebugName(a, "a");
+    enableDebugGraph();
+    const sub = subscribe((use) => use(a));
+    assert.deepEqual(namedGraph(), [
+      {name: "#subscription", kind: 'subscription', deps: ["a"], dependents: [], recomputes: 1},
+      {name: "a", kind: 'observable', deps: [], dependents: ["#subscription"], recomputes: 0},
+    ]);
+    sub.dispose();
+  });
+
+  it('should dump the graph as JSON and DOT', function() {
+    enableDebugGraph();
+    const a = observable(1);
+    setDebugName(a, "a");
+    const double = computed((use) => use(a) * 2);
+    setDebugName(double, 'double "x"');
+    const [nodeA, nodeDouble] = getDebugGraph();
+
+    assert.deepEqual(JSON.parse(debugGraphToJSON()), getDebugGraph());
+    assert.equal(debugGraphToDot(), [
+      'digraph grainjs {',
+      `  n${nodeA.id} [label="a #${nodeA.id} (0)", shape=ellipse];`,
+      `  n${nodeDouble.id} [label="double \\"x\\" #${nodeDouble.id} (1)", shape=box];`,
+      `  n${nodeA.id} -> n${nodeDouble.id};`,
+      '}',
+      '',
+    ].join('\n'));
+    double.dispose();
+  });
+
+  describe('compute trace', function() {
+    afterEach(function() {
+      setComputeTrace(null);
+    });
+
+    it('should accept debug names when creating observables', function() {
+      const amount = Observable.create(null, 1, "amount");
+      const total = Computed.create(null, amount, (use, a) => a * 2, "total");
+      const sub = subscribe(total, () => undefined, "log");
+      assert.equal(getDebugName(amount), "amount");
+      assert.equal(getDebugName(total), "total");
+      assert.equal(getDebugName(sub), "log");
+      assert.equal(total.get(), 2);
+      sub.dispose();
+      total.dispose();
+    });
+
+    it('should report each compute cycle', function() {
+      const amount = Observable.create(null, 1, "amount");
+      const discount = Observable.create(null, 0, "discount");
+      const unnamed = observable(0);
+      const total = Computed.create(null, (use) => use(amount) - use(discount), "total");
+      const double = pureComputed((use) => use(total) * 2);
+      setDebugName(double, "double");
+      assert.equal(double.get(), 2);
+      const sub = subscribe((use) => use(double) + use(unnamed));
+
+      const traces: IComputeTrace[] = [];
+      setComputeTrace((trace) => traces.push(trace));
+      amount.set(10);
+      bundleChanges(() => {
+        amount.set(20);
+        discount.set(5);
+        unnamed.set(1);
+      });
+      assert.equal(double.get(), 30);
+
+      // Unnamed items are identified by their class and a creation number.
+      const subName = traces[0].recomputed[2].name;
+      assert.match(subName, /^Subscription#\d+$/);
+      assert.deepEqual(traces.map((t) => ({set: t.set, enqueued: t.enqueued, recomputed: t.recomputed.map(
+        (r) => ({name: r.name, priority: r.priority}))})), [{
+        set: ["amount"],
+        enqueued: [{name: "total", priority: 1}, {name: "double", priority: 2}, {name: subName, priority: 3}],
+        recomputed: [{name: "total", priority: 1}, {name: "double", priority: 2}, {name: subName, priority: 3}],
+      }, {
+        set: ["amount", "discount", "Observable"],
+        enqueued: [{name: "total", priority: 1}, {name: subName, priority: 3}, {name: "double", priority: 2}],
+        recomputed: [{name: "total", priority: 1}, {name: "double", priority: 2}, {name: subName, priority: 3}],
+      }]);
+      for (const t of traces) {
+        assert.isAtLeast(t.ms, 0);
+        for (const r of t.recomputed) { assert.isAtLeast(r.ms!, 0); }
+      }
+
+      // Setting an observable with no dependents is still reported; disabling tracing stops it.
+      const lone = Observable.create(null, 0, "lone");
+      lone.set(1);
+      assert.deepEqual(traces[2], {set: ["lone"], enqueued: [], recomputed: [], ms: 0});
+      setComputeTrace(null);
+      amount.set(30);
+      assert.lengthOf(traces, 3);
+      sub.dispose();
+      total.dispose();
+    });
+
+    it('should log to the console by default', function() {
+      const stub = sinon.stub(console, 'log');
+      try {
+        const amount = Observable.create(null, 1, "amount");
+        const total = Computed.create(null, (use) => use(amount) + 1, "total");
+        setComputeTrace();
+        amount.set(2);
+        sinon.assert.calledOnce(stub);
+        assert.match(stub.args[0][0], /^set amount: enqueued 1, recomputed 1 in \d+\.\d\dms\n {2}\[1\] total \d+\.\d\dms$/);
+        total.dispose();
+      } finally {
+        stub.restore();
+      }
+    });
+
+    it('should format traces', function() {
+      assert.equal(formatComputeTrace({set: [], enqueued: [], recomputed: [], ms: 0}),
+        "set (none): enqueued 0, recomputed 0 in 0.00ms");
+    });
+  });
+});
@@ -1,7 +1,9 @@
+import {asyncComputed} from '../../lib/asyncComputed';
 import {dom} from '../../lib/dom';
 import {Disposable} from '../../lib/dispose';
-import {observable} from '../../lib/observable';
-import {assertResetSingleCall, useJsDomWindow} from './testutil2';
+import {obsArray} from '../../lib/obsArray';
+import {observable, setComputeErrorHandler} from '../../lib/observable';
+import {assertResetFirstArgs, assertResetSingleCall, useJsDomWindow} from './testutil2';
 
 import {assert} from 'chai';
 import * as sinon from 'sinon';
@@ -111,4 +113,291 @@ describe("domComputed", function() {
     sinon.assert.notCalled(fooConstruct);
     assert.equal(f3.isDisposed(), true);
   });
+
+  describe("domAsync", function() {
+    // Returns a promise along with a function to settle it.
+    function deferred<T>() {
+      const result = {} as {promise: Promise<T>, resolve: (v: T) => void, reject: (e: unknown) => void};
+      result.promise = new Promise<T>((resolve, reject) => Object.assign(result, {resolve, reject}));
+      return result;
+    }
+
+    // Waits for pending promise callbacks to run.
+    function flush() {
+      return new Promise((resolve) => setTimeout(resolve, 0));
+    }
+
+    const disposeSpy = sinon.spy();
+    const options = {
+      pending: () => dom('i', 'wait', dom.onDispose(() => disposeSpy('pending'))),
+      ready: (val: string) => dom('b', val, dom.onDispose(() => disposeSpy(val))),
+      error: (err: unknown) => dom('u', String(err), dom.onDispose(() => disposeSpy('error'))),
+    };
+
+    beforeEach(function() {
+      disposeSpy.resetHistory();
+    });
+
+    it("should render pending content, then the result", async function() {
+      const d1 = deferred<string>();
+      const elem = dom('div', dom.domAsync(d1.promise, options));
+      assert.equal(elem.innerHTML, '<!--a--><i>wait</i><!--b-->');
+      d1.resolve("foo");
+      await flush();
+      assert.equal(elem.innerHTML, '<!--a--><b>foo</b><!--b-->');
+      assertResetFirstArgs(disposeSpy, 'pending');
+
+      const d2 = deferred<string>();
+      const elem2 = dom('div', dom.domAsync(d2.promise, options));
+      d2.reject("oops");
+      await flush();
+      assert.equal(elem2.innerHTML, '<!--a--><u>oops</u><!--b-->');
+      assertResetFirstArgs(disposeSpy, 'pending');
+    });
+
+    it("should ignore stale promises from an observable", async function() {
+      const d1 = deferred<string>();
+      const d2 = deferred<string>();
+      const obs = observable(d1.promise);
+      const elem = dom('div', dom.domAsync(obs, options));
+      d1.resolve("one");
+      await flush();
+      assert.equal(elem.innerHTML, '<!--a--><b>one</b><!--b-->');
+      assertResetFirstArgs(disposeSpy, 'pending');
+
+      // Content for the previous promise gets disposed on switching to a new one.
+      const d3 = deferred<string>();
+      obs.set(d2.promise);
+      assert.equal(elem.innerHTML, '<!--a--><i>wait</i><!--b-->');
+      assertResetFirstArgs(disposeSpy, 'one');
+      obs.set(d3.promise);
+      assertResetFirstArgs(disposeSpy, 'pending');
+
+      // A stale promise doesn't replace the content.
+      d2.resolve("two");
+      await flush();
+      assert.equal(elem.innerHTML, '<!--a--><i>wait</i><!--b-->');
+      d3.resolve("three");
+      await flush();
+      assert.equal(elem.innerHTML, '<!--a--><b>three</b><!--b-->');
+    });
+
+    it("should not insert content after the DOM is disposed", async function() {
+      const d1 = deferred<string>();
+      const readySpy = sinon.spy(options.ready);
+      const elem = dom('div', dom.domAsync(d1.promise, {...options, ready: readySpy}));
+      dom.domDispose(elem);
+      assertResetFirstArgs(disposeSpy, 'pending');
+      d1.resolve("foo");
+      await flush();
+      sinon.assert.notCalled(readySpy);
+      assert.equal(elem.innerHTML, '<!--a--><i>wait</i><!--b-->');
+
+      // Same if the markers are removed from the DOM without disposal.
+      const d2 = deferred<string>();
+      const outer = dom('div', dom('div', dom.domAsync(d2.promise, {...options, ready: readySpy})));
+      const inner = outer.firstChild!;
+      outer.removeChild(inner);
+      inner.textContent = "";
+      d2.resolve("bar");
+      await flush();
+      sinon.assert.notCalled(readySpy);
+    });
+
+    it("should only pass on rejections of the current promise without an error option", async function() {
+      const unhandled = sinon.spy();
+      process.on('unhandledRejection', unhandled);
+      try {
+        const d1 = deferred<string>();
+        const d2 = deferred<string>();
+        const obs = observable(d1.promise);
+        const noErrorOptions = {pending: options.pending, ready: options.ready};
+        const elem = dom('div', dom.errorBoundary((err) => dom('s', String(err)),
+          () => dom.domAsync(obs, noErrorOptions)));
+
+        // A stale promise's rejection is dropped.
+        obs.set(d2.promise);
+        d1.reject("stale");
+        await flush();
+        sinon.assert.notCalled(unhandled);
+        assert.equal(elem.innerHTML, '<!--a--><!--a--><i>wait</i><!--b--><!--b-->');
+
+        // The current one's goes to the error boundary.
+        d2.reject("current");
+        await flush();
+        sinon.assert.notCalled(unhandled);
+        assert.equal(elem.innerHTML, '<!--a--><s>current</s><!--b-->');
+
+        // A rejection of a promise whose DOM is disposed is dropped too.
+        const d3 = deferred<string>();
+        const elem2 = dom('div', dom.domAsync(d3.promise, noErrorOptions));
+        dom.domDispose(elem2);
+        d3.reject("disposed");
+        await flush();
+        sinon.assert.notCalled(unhandled);
+      } finally {
+        process.removeListener('unhandledRejection', unhandled);
+      }
+    });
+
+    it("should report rejections without an error option or error boundary", async function() {
+      const unhandled = sinon.spy();
+      const errorHandler = sinon.spy();
+      const consoleError = sinon.stub(console, 'error');
+      process.on('unhandledRejection', unhandled);
+      try {
+        const noErrorOptions = {pending: options.pending, ready: options.ready};
+
+        // The pending content is removed, and the error goes to the compute error handler.
+        setComputeErrorHandler(errorHandler);
+        const d1 = deferred<string>();
+        const elem = dom('div', dom.domAsync(d1.promise, noErrorOptions));
+        assert.equal(elem.innerHTML, '<!--a--><i>wait</i><!--b-->');
+        d1.reject("failed");
+        await flush();
+        assert.equal(elem.innerHTML, '<!--a--><!--b-->');
+        assert.deepEqual(disposeSpy.args, [['pending']]);
+        sinon.assert.calledOnceWithExactly(errorHandler, "failed", undefined);
+
+        // Without a handler, it gets logged.
+        setComputeErrorHandler(null);
+        const d2 = deferred<string>();
+        const elem2 = dom('div', dom.domAsync(d2.promise, noErrorOptions));
+        d2.reject("failed2");
+        await flush();
+        assert.equal(elem2.innerHTML, '<!--a--><!--b-->');
+        sinon.assert.calledOnceWithExactly(consoleError, "failed2");
+        sinon.assert.notCalled(unhandled);
+      } finally {
+        setComputeErrorHandler(null);
+        consoleError.restore();
+        process.removeListener('unhandledRejection', unhandled);
+      }
+    });
+
+    it("should follow the status of an AsyncComputed", async function() {
+      const obs = observable(deferred<string>());
+      const comp = asyncComputed(null, (use) => use(obs).promise);
+      const elem = dom('div', dom.domAsync(comp, options));
+      assert.equal(elem.innerHTML, '<!--a--><i>wait</i><!--b-->');
+      obs.get().resolve("foo");
+      await flush();
+      assert.equal(elem.innerHTML, '<!--a--><b>foo</b><!--b-->');
+
+      obs.set(deferred<string>());
+      assert.equal(elem.innerHTML, '<!--a--><i>wait</i><!--b-->');
+      obs.get().reject("bad");
+      await flush();
+      assert.equal(elem.innerHTML, '<!--a--><u>bad</u><!--b-->');
+      dom.domDispose(elem);
+      comp.dispose();
+    });
+  });
+
+  describe("errorBoundary", function() {
+    const fallback = (err: unknown) => dom('span.error', String(err));
+
+    function failOn(bad: string) {
+      return (val: string) => {
+        if (val === bad) { throw new Error(`bad ${val}`); }
+        return val;
+      };
+    }
+
+    it("should show the fallback for errors in the initial build", function() {
+      const spyDispose = sinon.spy();
+      const elem = dom('div',
+        dom.errorBoundary(fallback, () => dom('div',
+          dom.onDispose(spyDispose),
+          dom.domComputed(observable("x"), failOn("x")),
+        )),
+      );
+      assert.equal(elem.innerHTML, '<!--a--><span class="error">Error: bad x</span><!--b-->');
+      sinon.assert.calledOnce(spyDispose);
+
+      const elem2 = dom('div', dom.errorBoundary(fallback, () => [dom('b', 'ok'), 'text']));
+      assert.equal(elem2.innerHTML, '<!--a--><b>ok</b>text<!--b-->');
+    });
+
+    it("should show the fallback for errors in nested re-renders", function() {
+      const obs = observable("a");
+      const other = observable("b");
+      const spyDispose = sinon.spy();
+      const elem = dom('div',
+        dom.errorBoundary(fallback, () => dom('div',
+          dom.onDispose(spyDispose),
+          dom.domComputed(other, (val) => dom('span', val,
+            dom.domComputed(obs, failOn("bad")),
+          )),
+        )),
+        dom.domComputed(obs, (val) => dom('i', val)),
+      );
+      assert.equal(elem.innerHTML,
+        '<!--a--><div><!--a--><span>b<!--a-->a<!--b--></span><!--b--></div><!--b--><!--a--><i>a</i><!--b-->');
+
+      // Nested re-renders within the boundary work normally.
+      other.set("B");
+      assert.equal(elem.querySelector('span')!.outerHTML, '<span>B<!--a-->a<!--b--></span>');
+
+      // An error in a nested re-render replaces the boundary's content. Other DOM still updates.
+      obs.set("bad");
+      assert.equal(elem.innerHTML,
+        '<!--a--><span class="error">Error: bad bad</span><!--b--><!--a--><i>bad</i><!--b-->');
+      sinon.assert.calledOnce(spyDispose);
+
+      // The content that failed no longer reacts to changes.
+      obs.set("c");
+      other.set("d");
+      assert.equal(elem.innerHTML,
+        '<!--a--><span class="error">Error: bad bad</span><!--b--><!--a--><i>c</i><!--b-->');
+    });
+
+    it("should show the fallback for errors in forEach items", function() {
+      const arr = obsArray(["a", "b"]);
+      const elem = dom('div',
+        dom.errorBoundary(fallback, () => dom('div', dom.forEach(arr, (val) => dom('i', failOn("bad")(val))))),
+      );
+      assert.equal(elem.innerHTML, '<!--a--><div><!--a--><i>a</i><i>b</i><!--b--></div><!--b-->');
+      arr.push("bad", "c");
+      assert.equal(elem.innerHTML, '<!--a--><span class="error">Error: bad bad</span><!--b-->');
+      arr.push("d");
+      assert.equal(elem.innerHTML, '<!--a--><span class="error">Error: bad bad</span><!--b-->');
+    });
+
+    it("should show the fallback for errors in items of a forEach directly inside it", function() {
+      const arr = obsArray(["a", "b"]);
+      const elem = dom('div',
+        dom.errorBoundary(fallback, () => dom.forEach(arr, (val) => dom('i', failOn("bad")(val)))),
+      );
+      assert.equal(elem.innerHTML, '<!--a--><!--a--><i>a</i><i>b</i><!--b--><!--b-->');
+      arr.push("c");
+      assert.equal(elem.innerHTML, '<!--a--><!--a--><i>a</i><i>b</i><i>c</i><!--b--><!--b-->');
+      arr.push("bad");
+      assert.equal(elem.innerHTML, '<!--a--><span class="error">Error: bad bad</span><!--b-->');
+      arr.push("d");
+      assert.equal(elem.innerHTML, '<!--a--><span class="error">Error: bad bad</span><!--b-->');
+    });
+
+    it("should pass errors in the fallback to the containing boundary", function() {
+      const obs = observable("a");
+      const elem = dom('div',
+        dom.errorBoundary(fallback, () =>
+          dom.errorBoundary((err) => { throw new Error(`fallback failed for ${err}`); }, () =>
+            dom.domComputed(obs, failOn("bad")),
+          ),
+        ),
+      );
+      assert.equal(elem.innerHTML, '<!--a--><!--a--><!--a-->a<!--b--><!--b--><!--b-->');
+      obs.set("bad");
+      assert.equal(elem.innerHTML,
+        '<!--a--><span class="error">Error: fallback failed for Error: bad bad</span><!--b-->');
+    });
+
+    it("should not affect errors outside of boundaries", function() {
+      const obs = observable("a");
+      dom('div', dom.errorBoundary(fallback, () => 'ok'), dom.domComputed(obs, failOn("bad")));
+      assert.throws(() => obs.set("bad"), /bad bad/);
+      assert.throws(() => dom('div', dom.errorBoundary(fallback, () => 'ok'), failOn("x")("x")), /bad x/);
+    });
+  });
 });
@@ -1,7 +1,8 @@
 import {popGlobals, pushGlobals} from '../../lib/browserGlobals';
 import {dom} from '../../lib/dom';
 import {obsArray} from '../../lib/obsArray';
-import {observable} from '../../lib/observable';
+import {obsMap} from '../../lib/obsMap';
+import {bundleChanges, observable} from '../../lib/observable';
 import {assertResetFirstArgs} from './testutil2';
 
 import {assert} from 'chai';
@@ -223,4 +224,123 @@ describe("foreach", function() {
     assert.equal(elem.textContent, ':x:y:z');
     assertResetFirstArgs(spy, "x", "y", "z");
   });
+
+  it("should reuse and move nodes by key", function() {
+    interface Item { id: number; name: string; }
+    const items = (...ids: number[]) => ids.map((id) => ({id, name: `n${id}`}));
+    const model = observable<Item[]>(items(1, 2, 3, 4));
+    const disposeSpy = sinon.spy();
+    const spy = sinon.spy((item: Item) => dom('span', item.name, dom.onDispose(() => disposeSpy(item.id))));
+    const elem = dom('div', "[", dom.forEach(model, spy, {key: (item) => item.id}), "]");
+    assert.equal(elem.textContent, "[n1n2n3n4]");
+    assertResetFirstArgs(spy, ...model.get());
+    const [span1, span2, span3, span4] = Array.from(elem.querySelectorAll('span'));
+
+    // Replacing the array with new objects with the same keys reuses all nodes.
+    const moveSpy = sinon.spy(elem, 'insertBefore');
+    model.set(items(4, 1, 2, 3));
+    assert.equal(elem.textContent, "[n4n1n2n3]");
+    assert.deepEqual(Array.from(elem.querySelectorAll('span')), [span4, span1, span2, span3]);
+    assertResetFirstArgs(spy);
+    sinon.assert.notCalled(disposeSpy);
+    sinon.assert.calledOnce(moveSpy);
+
+    // Only new items get created and only removed items get disposed.
+    model.set(items(3, 5, 1));
+    assert.equal(elem.textContent, "[n3n5n1]");
+    assert.deepEqual(Array.from(elem.querySelectorAll('span')).filter((s, i) => i !== 1), [span3, span1]);
+    assertResetFirstArgs(spy, model.get()[1]);
+    assertResetFirstArgs(disposeSpy, 4, 2);
+    moveSpy.restore();
+
+    // Duplicate keys are an error.
+    assert.throws(() => model.set(items(1, 1)), /duplicate key 1/);
+
+    dom.domDispose(elem);
+    assertResetFirstArgs(disposeSpy, 3, 5, 1);
+  });
+
+  it("should work directly inside domComputed", function() {
+    const model = obsArray<string>(["a"]);
+    const keyed = observable(["a"]);
+    const elem = dom('div',
+      dom.domComputed(() => dom.forEach(model, (item) => dom('span', item))),
+      dom.domComputed(() => dom.forEach(keyed, (item) => dom('i', item), {key: (item) => item})),
+    );
+    model.push("b");
+    keyed.set(["b", "a"]);
+    assert.equal(elem.textContent, "abba");
+  });
+
+  it("should keep index observables up to date", function() {
+    const model = obsArray<string>(["a", "b", "c"]);
+    const elem = dom('div', dom.forEach(model, (item, i, index) =>
+      dom('span', item, dom.text((use) => String(use(index)))), {withIndex: true}));
+    assert.equal(elem.textContent, "a0b1c2");
+
+    model.splice(1, 0, "x", "y");
+    assert.equal(elem.textContent, "a0x1y2b3c4");
+    model.shift();
+    assert.equal(elem.textContent, "x0y1b2c3");
+    bundleChanges(() => {
+      model.push("z");
+      model.pop();
+    });
+    assert.equal(elem.textContent, "x0y1b2c3");
+
+    // With keys, moved nodes get their new indices.
+    const keyed = observable(["a", "b", "c"]);
+    const elem2 = dom('div', dom.forEach(keyed, (item, i, index) =>
+      dom('span', item, dom.text((use) => String(use(index)))), {key: (item) => item, withIndex: true}));
+    assert.equal(elem2.textContent, "a0b1c2");
+    keyed.set(["c", "d", "a"]);
+    assert.equal(elem2.textContent, "c0d1a2");
+
+    // Without the withIndex option, no index observables are created.
+    const spy = sinon.spy((...args: any[]) => dom('span', args[0]));
+    dom('div', dom.forEach(model, spy));
+    dom('div', dom.forEach(keyed, spy, {key: (item) => item}));
+    dom('div', dom.forEach(["p", "q"], spy));
+    assert.deepEqual(spy.args.map((args) => args.length), [2, 2, 2, 2, 2, 2, 2, 2, 2]);
+  });
+
+  it("should render entries of an obsMap with forEachMap", function() {
+    const model = obsMap<string, number>(new Map([["a", 1], ["b", 2], ["c", 3]]));
+    const spy = sinon.spy((value: number, key: string) => dom('span', `${key}${value}`));
+    const disposeSpy = sinon.spy();
+    const elem = dom('div', "[", dom.forEachMap(model, (value, key) =>
+      dom.update(spy(value, key), dom.onDispose(() => disposeSpy(key)))), "]");
+    assert.equal(elem.textContent, "[a1b2c3]");
+    assertResetFirstArgs(spy, 1, 2, 3);
+
+    model.setKey("d", 4);
+    assert.equal(elem.textContent, "[a1b2c3d4]");
+    assertResetFirstArgs(spy, 4);
+
+    model.setKey("b", 20);
+    assert.equal(elem.textContent, "[a1b20c3d4]");
+    assertResetFirstArgs(spy, 20);
+    assertResetFirstArgs(disposeSpy, "b");
+
+    model.deleteKey("a");
+    assert.equal(elem.textContent, "[b20c3d4]");
+    assertResetFirstArgs(spy);
+    assertResetFirstArgs(disposeSpy, "a");
+
+    model.set(new Map([["x", 7]]));
+    assert.equal(elem.textContent, "[x7]");
+    assertResetFirstArgs(spy, 7);
+    assertResetFirstArgs(disposeSpy, "b", "c", "d");
+
+    // After the DOM is disposed, changes to the map are no longer rendered.
+    dom.domDispose(elem);
+    assertResetFirstArgs(disposeSpy, "x");
+    model.setKey("y", 8);
+    assertResetFirstArgs(spy);
+  });
+
+  it("should render a plain Map with forEachMap", function() {
+    const elem = dom('div', dom.forEachMap(new Map([["a", 1], ["b", 2]]), (value, key) => dom('span', key, String(value))));
+    assert.equal(elem.textContent, "a1b2");
+  });
 });
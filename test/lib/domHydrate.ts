@@ -0,0 +1,119 @@
+import {popGlobals, pushGlobals} from '../../lib/browserGlobals';
+import {dom} from '../../lib/dom';
+import {obsArray} from '../../lib/obsArray';
+import {observable} from '../../lib/observable';
+import {createVirtualWindow, renderToString} from '../../lib/ssr';
+
+import {assert} from 'chai';
+import {JSDOM} from 'jsdom';
+import * as sinon from 'sinon';
+
+describe('domHydrate', function() {
+  let jsdomDoc: JSDOM;
+
+  // Renders on the server using a virtual document, and returns a client-side container with
+  // the resulting HTML. Server-side DOM is disposed, to stop it from reacting to later changes.
+  function serverRender(buildFunc: () => Node): HTMLElement {
+    pushGlobals(createVirtualWindow());
+    let html: string;
+    try {
+      const content = dom.renderForHydration(buildFunc);
+      html = renderToString(content);
+      dom.domDispose(content);
+    } finally {
+      popGlobals();
+    }
+    const container = jsdomDoc.window.document.createElement('div');
+    container.innerHTML = html;
+    jsdomDoc.window.document.body.appendChild(container);
+    return container;
+  }
+
+  beforeEach(function() {
+    jsdomDoc = new JSDOM("<!doctype html><html><body></body></html>");
+    pushGlobals(jsdomDoc.window);
+  });
+
+  afterEach(function() {
+    popGlobals();
+  });
+
+  it('should reuse server-rendered nodes and attach bindings', function() {
+    const items = obsArray(['a', 'b']);
+    const flag = observable(true);
+    const name = observable('World');
+    const onClick = sinon.spy();
+    const build = () => dom('div.main',
+      'Hello, ', dom.text(name), '!',
+      dom('button', 'Click', dom.on('click', onClick)),
+      dom('ul', dom.forEach(items, (item) => dom('li', item))),
+      dom.maybe(flag, () => dom.frag(dom('span', 'flag'), 'text')),
+      dom.cls('on', flag),
+    );
+    const container = serverRender(build);
+    assert.match(container.innerHTML, /data-grain-hk=/);
+    const serverButton = container.querySelector('button')!;
+    const serverItems = Array.from(container.querySelectorAll('li'));
+
+    dom.hydrate(container, build);
+    assert.equal(container.innerHTML,
+      '<div class="main on">Hello, World!<button>Click</button>' +
+      '<ul><!--a--><li>a</li><li>b</li><!--b--></ul><!--a--><span>flag</span>text<!--b--></div>');
+    assert.strictEqual(container.querySelector('button'), serverButton);
+    assert.deepEqual(Array.from(container.querySelectorAll('li')), serverItems);
+
+    // Bindings and event handlers are now live.
+    serverButton.click();
+    sinon.assert.calledOnce(onClick);
+    name.set('There');
+    items.push('c');
+    flag.set(false);
+    assert.equal(container.innerHTML,
+      '<div class="main">Hello, There!<button>Click</button>' +
+      '<ul><!--a--><li>a</li><li>b</li><li>c</li><!--b--></ul><!--a--><!--b--></div>');
+    assert.deepEqual(Array.from(container.querySelectorAll('li')).slice(0, 2), serverItems);
+  });
+
+  it('should handle content built out of order', function() {
+    const value = observable('x');
+    const build = () => [
+      dom('p', (elem) => dom.frag('a', dom.domComputed(value, (v) => [v, dom('b', v)]), 'c')),
+      dom.frag(dom('i', 'y'), ''),
+      dom.svg('svg', dom.svg('linearGradient')),
+    ];
+    const container = serverRender(() => dom.frag(build()));
+    const serverP = container.firstChild;
+    dom.hydrate(container, build);
+    assert.strictEqual(container.firstChild, serverP);
+    assert.equal(container.innerHTML,
+      '<p>a<!--a-->x<b>x</b><!--b-->c</p><i>y</i><svg><linearGradient></linearGradient></svg>');
+    value.set('z');
+    assert.equal(container.innerHTML,
+      '<p>a<!--a-->z<b>z</b><!--b-->c</p><i>y</i><svg><linearGradient></linearGradient></svg>');
+  });
+
+  it('should report mismatches and dispose partially-built DOM', function() {
+    function assertMismatch(serverBuild: () => Node, clientBuild: () => Node, message: RegExp) {
+      const container = serverRender(serverBuild);
+      assert.throws(() => dom.hydrate(container, clientBuild), message);
+    }
+    const spy = sinon.spy();
+    const serverBuild = () => dom('div', dom('span', 'Hello'));
+    assertMismatch(serverBuild, () => dom('div', dom('b', 'Hello')),
+      /Hydration mismatch: expected <b> for key 0, found <span>/);
+    assertMismatch(serverBuild, () => dom('div', dom('span', dom.onDispose(spy), 'Bye')),
+      /Hydration mismatch: expected text "Bye", found text "Hello"/);
+    sinon.assert.calledOnce(spy);
+    assertMismatch(serverBuild, () => dom('div', dom('span', 'Hello'), dom('span')),
+      /Hydration mismatch: expected <span> for key 1, found <div>/);
+    assertMismatch(serverBuild, () => dom('section', dom('div', dom('span', 'Hello'))),
+      /Hydration mismatch: no server-rendered node for <section> \(key 2\)/);
+    assertMismatch(serverBuild, () => dom('div', dom('span', 'Hell')),
+      /Hydration mismatch: expected end of <span>, found text "o"/);
+    assertMismatch(() => dom.frag(dom('p'), dom('p')), () => dom('p'),
+      /Hydration mismatch: expected end of content, found <p>/);
+    assertMismatch(() => dom('div', dom.maybe(true, () => dom('span'))),
+      () => dom('div', dom.maybe(false, () => dom('span'))),
+      /Hydration mismatch: expected end of dynamic content, found <span>/);
+  });
+});
@@ -0,0 +1,77 @@
+import {assert} from 'chai';
+import * as sinon from 'sinon';
+import {computed, deepEqual, Observable, pureComputed, shallowEqual} from '../../index';
+
+describe('equality', function() {
+
+  it('shallowEqual should compare one level deep', function() {
+    assert.isTrue(shallowEqual(1, 1));
+    assert.isTrue(shallowEqual(NaN, NaN));
+    assert.isFalse(shallowEqual(1, "1"));
+    assert.isFalse(shallowEqual(null, {}));
+    assert.isTrue(shallowEqual([1, "a", null], [1, "a", null]));
+    assert.isFalse(shallowEqual([1, 2], [1, 2, 3]));
+    assert.isTrue(shallowEqual({a: 1, b: "x"}, {b: "x", a: 1}));
+    assert.isFalse(shallowEqual({a: 1}, {a: 1, b: undefined}));
+    assert.isFalse(shallowEqual({a: 1}, [1]));
+    assert.isTrue(shallowEqual(new Map([[1, "a"]]), new Map([[1, "a"]])));
+    assert.isFalse(shallowEqual(new Map([[1, "a"]]), new Map([[1, "b"]])));
+    assert.isTrue(shallowEqual(new Set([1, 2]), new Set([2, 1])));
+    assert.isFalse(shallowEqual(new Set([1, 2]), new Set([1, 3])));
+
+    // Nested values are compared by identity.
+    const inner = [1];
+    assert.isTrue(shallowEqual({x: inner}, {x: inner}));
+    assert.isFalse(shallowEqual({x: [1]}, {x: [1]}));
+  });
+
+  it('deepEqual should compare recursively', function() {
+    assert.isTrue(deepEqual({x: [1, {y: "a"}]}, {x: [1, {y: "a"}]}));
+    assert.isFalse(deepEqual({x: [1, {y: "a"}]}, {x: [1, {y: "b"}]}));
+    assert.isTrue(deepEqual(new Map([["k", [1, 2]]]), new Map([["k", [1, 2]]])));
+    assert.isTrue(deepEqual(new Date(1000), new Date(1000)));
+    assert.isFalse(deepEqual(new Date(1000), new Date(2000)));
+
+    // Instances of classes other than the built-in ones are only equal if identical.
+    class Foo { constructor(public x: number) {} }
+    assert.isFalse(deepEqual(new Foo(1), new Foo(1)));
+    assert.isFalse(deepEqual(new Foo(1), {x: 1}));
+  });
+
+  it('should let observables skip equal values', function() {
+    const obs = Observable.create(null, {a: 1}, {equals: deepEqual, name: "obs"});
+    const spy = sinon.spy();
+    obs.addListener(spy);
+    obs.set({a: 1});
+    sinon.assert.notCalled(spy);
+    obs.set({a: 2});
+    sinon.assert.calledOnceWithExactly(spy, {a: 2}, {a: 1});
+
+    // setAndTrigger() still triggers.
+    spy.resetHistory();
+    obs.setAndTrigger({a: 2});
+    sinon.assert.calledOnce(spy);
+  });
+
+  it('should let computeds skip notifying dependents', function() {
+    const items = Observable.create(null, [1, 2, 3]);
+    const threshold = Observable.create(null, 2);
+    const big = computed((use) => use(items).filter((i) => i >= use(threshold))).withEquals(shallowEqual);
+    const small = pureComputed((use) => use(items).filter((i) => i < use(threshold)), {equals: shallowEqual});
+    const spy = sinon.spy();
+    const count = computed((use) => spy(use(big).length + use(small).length));
+    spy.resetHistory();
+
+    threshold.set(2.5);     // Big changes, small doesn't.
+    assert.deepEqual(big.get(), [3]);
+    assert.deepEqual(small.get(), [1, 2]);
+    sinon.assert.calledOnce(spy);
+    spy.resetHistory();
+
+    items.set([1, 2, 3]);   // A new array, but neither result changes.
+    sinon.assert.notCalled(spy);
+
+    count.dispose();
+    big.dispose();
+  });
+});
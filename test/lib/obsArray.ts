@@ -1,7 +1,8 @@
-import {computed} from '../../lib/computed';
-import {Disposable} from '../../lib/dispose';
-import {computedArray, makeLiveIndex, MutableObsArray, ObsArray, obsArray} from '../../lib/obsArray';
+import {computed, Computed} from '../../lib/computed';
+import {Disposable, MultiHolder} from '../../lib/dispose';
+import {computedArray, computedFilter, computedSort, makeLiveIndex, MutableObsArray, ObsArray, obsArray} from '../../lib/obsArray';
 import {bundleChanges, Observable, observable} from '../../lib/observable';
+import {UseCB} from '../../lib/subscribe';
 import {assertResetFirstArgs, assertResetSingleCall} from './testutil2';
 
 import {assert} from 'chai';
@@ -90,6 +91,60 @@ describe('obsArray', function() {
       assert.deepEqual(m.get(), ["x", "y", "g"]);
       assertResetSingleCall(spy, undefined, m.get(), m.get());
     });
+
+    it('should emit minimal splices with setWithDiff', function() {
+      const m = obsArray<string>("abcdefg".split(""));
+      const spy = sinon.spy();
+      m.addListener(spy);
+      const value = m.get();
+
+      m.setWithDiff("axcdgyz".split(""));
+      assert.strictEqual(m.get(), value);
+      assert.deepEqual(m.get(), "axcdgyz".split(""));
+      assert.deepEqual(spy.args.map((args) => args[2]), [
+        {start: 1, numAdded: 1, deleted: ["b"]},
+        {start: 4, numAdded: 0, deleted: ["e", "f"]},
+        {start: 5, numAdded: 2, deleted: []},
+      ]);
+      spy.resetHistory();
+
+      m.setWithDiff("axcdgyz".split(""));
+      sinon.assert.notCalled(spy);
+
+      // Check that applying the emitted splices in order always produces the new array.
+      const copy = m.get().slice();
+      m.addListener((arr, prev, splice) => {
+        copy.splice(splice!.start, splice!.deleted.length, ...arr.slice(splice!.start, splice!.start + splice!.numAdded));
+      });
+      for (const str of ["", "abc", "cba", "abcabc", "bcaxb", "xxyyx", "yxyx", "abcdefghij", "jihgfedcba", ""]) {
+        m.setWithDiff(str.split(""));
+        assert.deepEqual(m.get(), str.split(""));
+        assert.deepEqual(copy, str.split(""));
+      }
+    });
+
+    it('should support setWithDiff with a key', function() {
+      interface Item { id: number; name: string; }
+      const a1 = {id: 1, name: "a"};
+      const b2 = {id: 2, name: "b"};
+      const c3 = {id: 3, name: "c"};
+      const m = obsArray<Item>([a1, b2, c3]);
+      const spy = sinon.spy();
+      m.addListener(spy);
+
+      // Matching keys with different objects get replaced, but are not treated as insertions.
+      const b2x = {id: 2, name: "bx"};
+      m.setWithDiff([a1, b2x, c3], {key: (item) => item.id});
+      assert.deepEqual(m.get(), [a1, b2x, c3]);
+      assertResetSingleCall(spy, undefined, m.get(), m.get(), {start: 1, numAdded: 1, deleted: [b2]});
+
+      m.setWithDiff([c3, a1, b2x], {key: (item) => item.id});
+      assert.deepEqual(m.get(), [c3, a1, b2x]);
+      assert.deepEqual(spy.args.map((args) => args[2]), [
+        {start: 0, numAdded: 1, deleted: []},
+        {start: 3, numAdded: 0, deleted: [c3]},
+      ]);
+    });
   });
 
   describe("ComputedArray", function() {
@@ -198,13 +253,57 @@ describe('obsArray', function() {
       assert.deepEqual(simple.get(), ["W", "P", "Q", "Z", "X"]);
       assert.deepEqual(mapped.get(), simple.get());
       assertResetFirstArgs(spy1, "w", "p", "q", "z", "x");
-      assertResetFirstArgs(spy2, "w", "p", "q", "z", "x");          // Rebuilt because multiple splices.
+      assertResetFirstArgs(spy2, "x");          // Multiple splices are still applied incrementally.
 
       m.set(["foo", "bar"]);
       assert.deepEqual(simple.get(), ["FOO", "BAR"]);
       assert.deepEqual(mapped.get(), simple.get());
       assertResetFirstArgs(spy1, "foo", "bar");
       assertResetFirstArgs(spy2, "foo", "bar");
+
+      m.setWithDiff(["foo", "baz", "bar", "qux"]);
+      assert.deepEqual(simple.get(), ["FOO", "BAZ", "BAR", "QUX"]);
+      assert.deepEqual(mapped.get(), simple.get());
+      assertResetFirstArgs(spy2, "baz", "qux");
+    });
+
+    it("should apply multiple bundled splices incrementally", function() {
+      const m = obsArray<string>("abcdef".split(""));
+      const spy = sinon.spy((x: string) => x.toUpperCase());
+      const mapped = computedArray(m, spy);
+      spy.resetHistory();
+      const listener = sinon.spy();
+      mapped.addListener(listener);
+
+      bundleChanges(() => {
+        m.splice(1, 2, "x", "y", "z");    // axyzdef
+        m.splice(2, 3, "q");              // axqef
+        m.push("g", "h");                 // axqefgh
+        m.splice(6, 1);                   // axqefg
+        m.shift();                        // xqefg
+        m.splice(3, 0, "r");              // xqerfg
+      });
+      assert.deepEqual(m.get(), "xqerfg".split(""));
+      assert.deepEqual(mapped.get(), "XQERFG".split(""));
+      assertResetFirstArgs(spy, "x", "q", "r", "g");
+
+      // The listener gets called once per disjoint change, each reflecting the array at the time.
+      assert.deepEqual(listener.args.map((args) => args[2]), [
+        {start: 0, numAdded: 2, deleted: ["A", "B", "C", "D"]},
+        {start: 3, numAdded: 1, deleted: []},
+        {start: 5, numAdded: 1, deleted: []},
+      ]);
+
+      // A change without splice info still causes a rebuild.
+      listener.resetHistory();
+      bundleChanges(() => {
+        m.push("s");
+        m.set(["t"]);
+        m.push("u");
+      });
+      assert.deepEqual(mapped.get(), ["T", "U"]);
+      assertResetFirstArgs(spy, "t", "u");
+      assertResetSingleCall(listener, undefined, mapped.get(), ["X", "Q", "E", "R", "F", "G"]);
     });
 
     it("should work for an observable whose value is an ObsArray", function() {
@@ -226,6 +325,132 @@ describe('obsArray', function() {
       testObsArrayToggling(sources, target, (index) => indexObs.set(index));
     });
 
+    it("should only map items while it has listeners when lazy", function() {
+      const src = obsArray<string>(["a", "b"]);
+      const spy = sinon.spy((x: string) => x.toUpperCase());
+      const mapped = computedArray(src, spy, {lazy: true});
+      assert.deepEqual(mapped.get(), []);
+      sinon.assert.notCalled(spy);
+
+      // Changes without listeners are ignored.
+      src.push("c");
+      sinon.assert.notCalled(spy);
+
+      // Using it in a computed activates it.
+      const joined = computed((use) => use(mapped).join(""));
+      assert.equal(joined.get(), "ABC");
+      assertResetFirstArgs(spy, "a", "b", "c");
+
+      // While active, it's updated incrementally.
+      src.splice(1, 1, "x");
+      assert.deepEqual(mapped.get(), ["A", "X", "C"]);
+      assert.equal(joined.get(), "AXC");
+      assertResetFirstArgs(spy, "x");
+
+      // Once the last listener is gone, it releases its items and stops following the source.
+      joined.dispose();
+      assert.deepEqual(mapped.get(), []);
+      src.push("d");
+      sinon.assert.notCalled(spy);
+
+      // A new listener activates it again, and gets notified of the mapped items.
+      const listener = sinon.spy();
+      const lis = mapped.addListener(listener);
+      assert.deepEqual(mapped.get(), ["A", "X", "C", "D"]);
+      assertResetFirstArgs(spy, "a", "x", "c", "d");
+      sinon.assert.calledOnce(listener);
+      assert.deepEqual(listener.args[0][0], ["A", "X", "C", "D"]);
+      listener.resetHistory();
+      src.pop();
+      assert.deepEqual(mapped.get(), ["A", "X", "C"]);
+      sinon.assert.calledOnce(listener);
+      lis.dispose();
+      mapped.dispose();
+    });
+
+    it("should keep index observables of items up to date", function() {
+      const src = obsArray<string>(["a", "b", "c", "d"]);
+      const mapped = computedArray<string, Computed<string>>(src, (item, i, arr, owner, indexObs) =>
+        Computed.create(owner, (use) => `${item}${use(indexObs)}`), {withIndex: true});
+      const values = () => mapped.get().map((c) => c.get());
+      assert.deepEqual(values(), ["a0", "b1", "c2", "d3"]);
+
+      src.splice(1, 1, "x", "y");
+      assert.deepEqual(values(), ["a0", "x1", "y2", "c3", "d4"]);
+      src.shift();
+      assert.deepEqual(values(), ["x0", "y1", "c2", "d3"]);
+
+      // Several splices bundled together.
+      bundleChanges(() => {
+        src.unshift("p");
+        src.splice(3, 1);
+        src.push("q");
+      });
+      assert.deepEqual(values(), ["p0", "x1", "y2", "d3", "q4"]);
+
+      // Bundled splices that cancel out change nothing.
+      bundleChanges(() => {
+        src.push("z");
+        src.pop();
+      });
+      assert.deepEqual(values(), ["p0", "x1", "y2", "d3", "q4"]);
+
+      src.set(["m", "n"]);
+      assert.deepEqual(values(), ["m0", "n1"]);
+      mapped.dispose();
+    });
+
+    it("should only create and update index observables as needed", function() {
+      const src = obsArray<string>(["a", "b", "c"]);
+      const spy = sinon.spy();
+      const plain = computedArray(src, (...args: any[]) => {
+        spy(args[3], args[4]);
+        return args[0];
+      });
+      const ownerSpy = sinon.spy();
+      const withOwner = computedArray(src, (...args: any[]) => {
+        ownerSpy(args[3], args[4]);
+        return args[0];
+      }, {withOwner: true});
+      const indexes: Array<Observable<number>> = [];
+      const mapped = computedArray(src, (item, i, arr, owner, indexObs) => {
+        indexes.push(indexObs);
+        return item;
+      }, {withIndex: true});
+
+      // Without the options, the mapper doesn't get an owner or an index, even if it would take them.
+      assert.deepEqual(plain.get(), ["a", "b", "c"]);
+      assert.deepEqual(spy.args, [[undefined, undefined], [undefined, undefined], [undefined, undefined]]);
+
+      // With withOwner, it gets an owner, but no index.
+      assert.deepEqual(withOwner.get(), ["a", "b", "c"]);
+      assert.lengthOf(ownerSpy.args, 3);
+      for (const [owner, indexObs] of ownerSpy.args) {
+        assert.instanceOf(owner, MultiHolder);
+        assert.isUndefined(indexObs);
+      }
+
+      // Indexes without listeners aren't updated on splices, but are correct when read.
+      const setSpies = indexes.map((index) => sinon.spy(index, 'set'));
+      src.unshift("x");
+      assert.deepEqual(mapped.get(), ["x", "a", "b", "c"]);
+      assert.deepEqual(indexes.map((index) => index.get()), [1, 2, 3, 0]);
+      setSpies.forEach((setSpy) => sinon.assert.notCalled(setSpy));
+
+      // Those with listeners are kept up to date.
+      const listener = sinon.spy();
+      indexes[2].addListener(listener);
+      src.splice(1, 1);
+      assert.deepEqual(mapped.get(), ["x", "b", "c"]);
+      assertResetSingleCall(listener, undefined, 2, 3);
+      sinon.assert.calledOnce(setSpies[2]);
+      sinon.assert.notCalled(setSpies[1]);
+      assert.equal(indexes[1].get(), 1);
+      plain.dispose();
+      withOwner.dispose();
+      mapped.dispose();
+    });
+
     function testObsArrayToggling(sources: ArrayLike<MutableObsArray<number>>,
                                   target: Observable<ObsArray<number>>,
                                   setIndex: (index: number) => void) {
@@ -295,6 +520,253 @@ describe('obsArray', function() {
     }
   });
 
+  describe("computedFilter", function() {
+    it("should emit minimal splices on source changes", function() {
+      const m = obsArray<number>([1, 2, 3, 4, 5]);
+      const spy = sinon.spy((x: number) => x % 2 === 1);
+      const filtered = computedFilter(m, spy);
+      assert.deepEqual(filtered.get(), [1, 3, 5]);
+      assertResetFirstArgs(spy, 1, 2, 3, 4, 5);
+      const listener = sinon.spy();
+      filtered.addListener(listener);
+
+      m.splice(1, 2, 7, 8);             // 1 7 8 4 5
+      assert.deepEqual(filtered.get(), [1, 7, 5]);
+      assertResetFirstArgs(spy, 7, 8);
+      assertResetSingleCall(listener, undefined, filtered.get(), filtered.get(),
+        {start: 1, numAdded: 1, deleted: [3]});
+
+      // Changes to excluded items don't cause any splices.
+      m.splice(2, 2, 6);                // 1 7 6 5
+      assert.deepEqual(filtered.get(), [1, 7, 5]);
+      assertResetFirstArgs(spy, 6);
+      sinon.assert.notCalled(listener);
+
+      bundleChanges(() => {
+        m.push(9, 10);                  // 1 7 6 5 9 10
+        m.shift();                      // 7 6 5 9 10
+      });
+      assert.deepEqual(filtered.get(), [7, 5, 9]);
+      assertResetFirstArgs(spy, 9, 10);
+      assert.deepEqual(listener.args.map((args) => args[2]), [
+        {start: 0, numAdded: 0, deleted: [1]},
+        {start: 2, numAdded: 1, deleted: []},
+      ]);
+      listener.resetHistory();
+
+      m.set([3, 4]);
+      assert.deepEqual(filtered.get(), [3]);
+      assertResetFirstArgs(spy, 3, 4);
+      assertResetSingleCall(listener, undefined, filtered.get(), [7, 5, 9]);
+    });
+
+    it("should re-evaluate only items affected by used observables", function() {
+      const items = "abcde".split("").map((name) => ({name, visible: observable(true)}));
+      const m = obsArray(items.slice());
+      const minName = observable("a");
+      const spy = sinon.spy((item: typeof items[0], use: UseCB) =>
+        item.name >= use(minName) && use(item.visible));
+      const filtered = computedFilter(m, spy);
+      const names = () => filtered.get().map((item) => item.name);
+      assert.deepEqual(names(), ["a", "b", "c", "d", "e"]);
+      spy.resetHistory();
+      const listener = sinon.spy();
+      filtered.addListener(listener);
+
+      items[1].visible.set(false);
+      assert.deepEqual(names(), ["a", "c", "d", "e"]);
+      assert.deepEqual(spy.args.map((args) => args[0].name), ["b"]);
+      assertResetSingleCall(listener, undefined, filtered.get(), filtered.get(),
+        {start: 1, numAdded: 0, deleted: [items[1]]});
+      spy.resetHistory();
+
+      // Adjacent changes get combined into one splice.
+      bundleChanges(() => {
+        items[1].visible.set(true);
+        items[2].visible.set(false);
+        items[4].visible.set(false);
+      });
+      assert.deepEqual(names(), ["a", "b", "d"]);
+      assert.deepEqual(spy.args.map((args) => args[0].name), ["b", "c", "e"]);
+      assert.deepEqual(listener.args.map((args) => args[2]), [
+        {start: 1, numAdded: 1, deleted: [items[2]]},
+        {start: 3, numAdded: 0, deleted: [items[4]]},
+      ]);
+      listener.resetHistory();
+      spy.resetHistory();
+
+      // Items which are no longer in the source array are no longer evaluated.
+      m.splice(0, 2);
+      spy.resetHistory();
+      items[0].visible.set(false);
+      items[1].visible.set(false);
+      sinon.assert.notCalled(spy);
+      assert.deepEqual(names(), ["d"]);
+
+      // An observable used for all items causes all of them to be re-evaluated.
+      listener.resetHistory();
+      minName.set("e");
+      assert.deepEqual(names(), []);
+      assert.deepEqual(spy.args.map((args) => args[0].name), ["c", "d", "e"]);
+      assertResetSingleCall(listener, undefined, filtered.get(), filtered.get(),
+        {start: 0, numAdded: 0, deleted: [items[3]]});
+
+      filtered.dispose();
+      spy.resetHistory();
+      minName.set("a");
+      items[3].visible.set(false);
+      sinon.assert.notCalled(spy);
+    });
+
+    it("should match a computed that filters an array", function() {
+      const flags = [true, false, true, true, false, false, true, false].map((v) => observable(v));
+      const m = obsArray<number>([0, 1, 2, 3]);
+      const predicate = (x: number, use: UseCB) => use(flags[x % flags.length]);
+      const simple = computed((use) => use(m).filter((x) => predicate(x, use)));
+      const filtered = computedFilter(m, predicate);
+      const copy = filtered.get().slice();
+      filtered.addListener((arr, prev, splice) => {
+        const added = splice ? arr.slice(splice.start, splice.start + splice.numAdded) : arr;
+        copy.splice(splice ? splice.start : 0, splice ? splice.deleted.length : copy.length, ...added);
+      });
+      for (let i = 0; i < 200; i++) {
+        const r = (i * 7919) % 13;
+        bundleChanges(() => {
+          if (r < 4) { m.push(i % 11); }
+          if (r % 3 === 0) { m.splice(i % 5, 2); }
+          if (r % 2 === 0) { flags[i % flags.length].set(!flags[i % flags.length].get()); }
+          if (r === 5) { m.unshift(i % 7, i % 3); }
+        });
+        assert.deepEqual(filtered.get(), simple.get());
+        assert.deepEqual(copy, simple.get());
+      }
+    });
+  });
+
+  describe("computedSort", function() {
+    it("should emit minimal splices on source changes", function() {
+      const m = obsArray<number>([5, 3, 8, 1]);
+      const spy = sinon.spy((a: number, b: number) => a - b);
+      const sorted = computedSort(m, spy);
+      assert.deepEqual(sorted.get(), [1, 3, 5, 8]);
+      const listener = sinon.spy();
+      sorted.addListener(listener);
+
+      m.push(4);
+      assert.deepEqual(sorted.get(), [1, 3, 4, 5, 8]);
+      assertResetSingleCall(listener, undefined, sorted.get(), sorted.get(),
+        {start: 2, numAdded: 1, deleted: []});
+
+      m.splice(0, 1);
+      assert.deepEqual(sorted.get(), [1, 3, 4, 8]);
+      assertResetSingleCall(listener, undefined, sorted.get(), sorted.get(),
+        {start: 3, numAdded: 0, deleted: [5]});
+
+      bundleChanges(() => {
+        m.push(0, 9);
+        m.splice(1, 1);
+      });
+      assert.deepEqual(m.get(), [3, 1, 4, 0, 9]);
+      assert.deepEqual(sorted.get(), [0, 1, 3, 4, 9]);
+      assert.deepEqual(listener.args.map((args) => args[2]), [
+        {start: 0, numAdded: 1, deleted: []},
+        {start: 4, numAdded: 1, deleted: [8]},
+      ]);
+      listener.resetHistory();
+
+      m.set([2, 1]);
+      assert.deepEqual(sorted.get(), [1, 2]);
+      assertResetSingleCall(listener, undefined, sorted.get(), [0, 1, 3, 4, 9]);
+    });
+
+    it("should keep equal items in source order", function() {
+      const m = obsArray<string>(["b1", "a1", "b2", "a2"]);
+      const sorted = computedSort(m, (a, b) => a[0].localeCompare(b[0]));
+      assert.deepEqual(sorted.get(), ["a1", "a2", "b1", "b2"]);
+      m.unshift("a0", "b0");
+      assert.deepEqual(sorted.get(), ["a0", "a1", "a2", "b0", "b1", "b2"]);
+      m.push("a3");
+      assert.deepEqual(sorted.get(), ["a0", "a1", "a2", "a3", "b0", "b1", "b2"]);
+    });
+
+    it("should move only items affected by used observables", function() {
+      const items = "abcde".split("").map((name, i) => ({name, rank: observable(i)}));
+      const m = obsArray(items.slice().reverse());
+      const spy = sinon.spy((a: typeof items[0], b: typeof items[0], use: UseCB) => use(a.rank) - use(b.rank));
+      const sorted = computedSort(m, spy);
+      const names = () => sorted.get().map((item) => item.name).join("");
+      assert.deepEqual(names(), "abcde");
+      spy.resetHistory();
+      const listener = sinon.spy();
+      sorted.addListener(listener);
+
+      items[0].rank.set(10);
+      assert.deepEqual(names(), "bcdea");
+      assert.deepEqual(listener.args.map((args) => args[2]), [
+        {start: 0, numAdded: 0, deleted: [items[0]]},
+        {start: 4, numAdded: 1, deleted: []},
+      ]);
+      listener.resetHistory();
+
+      // A change that doesn't affect the order causes no splices.
+      items[2].rank.set(2.5);
+      assert.deepEqual(names(), "bcdea");
+      sinon.assert.notCalled(listener);
+
+      // Several changes at once get applied together.
+      bundleChanges(() => {
+        items[4].rank.set(-1);
+        items[1].rank.set(3.5);
+        items[3].rank.set(20);
+      });
+      assert.deepEqual(names(), "ecbad");
+
+      sorted.dispose();
+      spy.resetHistory();
+      items[0].rank.set(0);
+      sinon.assert.notCalled(spy);
+    });
+
+    it("should match a computed that sorts an array", function() {
+      const keys = [5, 2, 7, 1, 3, 3, 0, 6].map((v) => observable(v));
+      const m = obsArray<number>([0, 1, 2, 3]);
+      const compareFn = (a: number, b: number, use: UseCB) =>
+        use(keys[a % keys.length]) - use(keys[b % keys.length]);
+      const simple = computed((use) => use(m).slice().sort((a, b) => compareFn(a, b, use)));
+      const sorted = computedSort(m, compareFn);
+      const copy = sorted.get().slice();
+      sorted.addListener((arr, prev, splice) => {
+        const added = splice ? arr.slice(splice.start, splice.start + splice.numAdded) : arr;
+        copy.splice(splice ? splice.start : 0, splice ? splice.deleted.length : copy.length, ...added);
+      });
+      for (let i = 0; i < 200; i++) {
+        const r = (i * 7919) % 13;
+        bundleChanges(() => {
+          if (r < 4) { m.push(i % 11); }
+          if (r % 3 === 0) { m.splice(i % 5, 2); }
+          if (r % 2 === 0) { keys[i % keys.length].set((i * 31) % 9); }
+          if (r % 4 === 1) { keys[(i + 3) % keys.length].set((i * 17) % 9); }
+          if (r === 5) { m.unshift(i % 7, i % 3); }
+        });
+        assert.deepEqual(sorted.get(), simple.get());
+        assert.deepEqual(copy, simple.get());
+      }
+    });
+
+    it("should work on top of computedFilter", function() {
+      const m = obsArray<number>([4, 9, 2, 7, 6]);
+      const threshold = observable(5);
+      const view = computedSort(computedFilter(m, (x, use) => x < use(threshold)), (a, b) => a - b);
+      assert.deepEqual(view.get(), [2, 4]);
+      m.push(1, 8);
+      assert.deepEqual(view.get(), [1, 2, 4]);
+      threshold.set(8);
+      assert.deepEqual(view.get(), [1, 2, 4, 6, 7]);
+      m.splice(0, 2);
+      assert.deepEqual(view.get(), [1, 2, 6, 7]);
+    });
+  });
+
   describe("makeLiveIndex", function() {
     it("should be kept valid", function() {
       const arr = obsArray([1, 2, 3]);
@@ -454,5 +926,66 @@ describe('obsArray', function() {
       sinon.assert.notCalled(fooConstruct);
       assertResetFirstArgs(fooDispose, "a", "b", "c");
     });
+
+    it("should dispose per-item owners of computed items", function() {
+      const valArr = obsArray(["1", "2", "3"]);
+      const mapped = computedArray(valArr, (val, i, arr, owner) => {
+        Foo.create(owner, val);
+        return val;
+      }, {withOwner: true});
+      assertResetFirstArgs(fooConstruct, "1", "2", "3");
+
+      valArr.splice(1, 1, "4", "5");
+      assert.deepEqual(mapped.get(), ["1", "4", "5", "3"]);
+      assertResetFirstArgs(fooConstruct, "4", "5");
+      assertResetFirstArgs(fooDispose, "2");
+
+      // Owners are disposed after listeners learn of the deletion.
+      const listener = sinon.spy(() => sinon.assert.notCalled(fooDispose));
+      mapped.addListener(listener);
+      valArr.splice(0, 2);
+      sinon.assert.calledOnce(listener);
+      assertResetFirstArgs(fooDispose, "1", "4");
+
+      valArr.set(["a", "b"]);
+      assertResetFirstArgs(fooConstruct, "a", "b");
+      assertResetFirstArgs(fooDispose, "5", "3");
+
+      mapped.dispose();
+      sinon.assert.notCalled(fooConstruct);
+      assertResetFirstArgs(fooDispose, "a", "b");
+    });
+
+    it("should dispose items when a lazy computedArray loses its listeners", function() {
+      const valArr = obsArray(["1", "2"]);
+      const mapped = computedArray(valArr, (val, i, arr) => Foo.create(arr, val), {lazy: true});
+      sinon.assert.notCalled(fooConstruct);
+
+      let lis = mapped.addListener(() => undefined);
+      assertResetFirstArgs(fooConstruct, "1", "2");
+      lis.dispose();
+      assertResetFirstArgs(fooDispose, "1", "2");
+
+      lis = mapped.addListener(() => undefined);
+      assertResetFirstArgs(fooConstruct, "1", "2");
+      lis.dispose();
+      mapped.dispose();
+      assertResetFirstArgs(fooDispose, "1", "2");
+    });
+
+    it("should not dispose items moved by setWithDiff", function() {
+      const arr = obsArray<Foo>();
+      const [f1, f2, f3] = [Foo.create(arr, 1), Foo.create(arr, 2), Foo.create(arr, 3)];
+      arr.push(f1, f2, f3);
+      assertResetFirstArgs(fooConstruct, 1, 2, 3);
+
+      // f3 gets moved to the front, which takes two splices, and f2 gets removed.
+      arr.setWithDiff([f3, f1]);
+      assert.deepEqual(arr.get(), [f3, f1]);
+      assertResetFirstArgs(fooDispose, 2);
+
+      arr.dispose();
+      assertResetFirstArgs(fooDispose, 3, 1);
+    });
   });
 });
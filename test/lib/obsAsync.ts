@@ -0,0 +1,145 @@
+import {computed, computedArray, obsArray, observable, pureComputed, waitFor} from '../../index';
+
+import {assert} from 'chai';
+import * as sinon from 'sinon';
+
+// Waits for pending promise callbacks to run.
+function flush() {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe('obsAsync', function() {
+
+  describe('values', function() {
+    it('should iterate over current and future values', async function() {
+      const obs = observable(1);
+      const seen: number[] = [];
+      const loop = (async () => {
+        for await (const value of obs.values()) {
+          seen.push(value);
+          if (value >= 3) { return; }
+        }
+      })();
+      await flush();
+      assert.deepEqual(seen, [1]);
+      assert.isTrue(obs.hasListeners());
+
+      // Values set before the loop gets to them are kept.
+      obs.set(2);
+      obs.set(3);
+      obs.set(4);
+      await loop;
+      assert.deepEqual(seen, [1, 2, 3]);
+    });
+
+    // Note that TypeScript's downlevel compilation of `for await` (at least in some versions)
+    // fails to call return() when breaking out of a loop, so this test calls it explicitly, as
+    // a native `for await` loop does on `break`, `return`, or an exception.
+    it('should remove the listener when the loop exits', async function() {
+      const obs = observable("a");
+      const iter = obs.values();
+      assert.isFalse(obs.hasListeners());
+      assert.deepEqual(await iter.next(), {value: "a", done: false});
+      assert.isTrue(obs.hasListeners());
+
+      // A pending next() call gets finished by return().
+      const pending = iter.next();
+      await iter.return!();
+      assert.deepEqual(await pending, {value: undefined, done: true});
+      assert.isFalse(obs.hasListeners());
+
+      // Further changes are not reported.
+      obs.set("b");
+      assert.deepEqual(await iter.next(), {value: undefined, done: true});
+      assert.isFalse(obs.hasListeners());
+    });
+
+    it('should work with PureComputed and ObsArray', async function() {
+      const x = observable(1);
+      const pure = pureComputed((use) => use(x) * 10);
+      const iter = pure.values();
+      assert.deepEqual(await iter.next(), {value: 10, done: false});
+      x.set(2);
+      assert.deepEqual(await iter.next(), {value: 20, done: false});
+      await iter.return!();
+      assert.isFalse(x.hasListeners());
+      assert.deepEqual(await iter.next(), {value: undefined, done: true});
+
+      const arr = obsArray([1]);
+      const arrIter = arr.values();
+      assert.deepEqual((await arrIter.next()).value, [1]);
+      arr.push(2);
+      assert.deepEqual((await arrIter.next()).value, [1, 2]);
+      await arrIter.return!();
+      assert.isFalse(arr.hasListeners());
+    });
+  });
+
+  describe('waitFor', function() {
+    let clock: sinon.SinonFakeTimers;
+    afterEach(function() {
+      if (clock) { clock.restore(); }
+    });
+
+    it('should resolve with the first value satisfying the predicate', async function() {
+      const obs = observable(0);
+      const double = computed((use) => use(obs) * 2);
+
+      // Resolves right away if the current value satisfies it.
+      assert.equal(await waitFor(obs, (v) => v === 0), 0);
+
+      const promise = waitFor(double, (v) => v > 5);
+      obs.set(1);
+      obs.set(3);
+      obs.set(4);
+      assert.equal(await promise, 6);
+      assert.isFalse(double.hasListeners());
+
+      // By default, waits for a truthy value.
+      const text = observable("");
+      const promise2 = waitFor(text);
+      text.set("done");
+      assert.equal(await promise2, "done");
+      assert.isFalse(text.hasListeners());
+    });
+
+    it('should see the items of a lazy computedArray', async function() {
+      const src = obsArray(["a", "b"]);
+      const lazyArr = computedArray(src, (x) => x.toUpperCase(), {lazy: true});
+      assert.deepEqual(lazyArr.get(), []);
+      assert.deepEqual(await waitFor(lazyArr, (a) => a.length > 0, {timeout: 200}), ["A", "B"]);
+      assert.isFalse(src.hasListeners());
+      lazyArr.dispose();
+    });
+
+    it('should reject on timeout or when the predicate throws', async function() {
+      clock = sinon.useFakeTimers();
+      const obs = observable(0);
+      const promise = waitFor(obs, (v) => v > 10, {timeout: 100});
+      const rejected = sinon.spy();
+      promise.catch(rejected);
+      clock.tick(99);
+      await Promise.resolve();
+      sinon.assert.notCalled(rejected);
+      clock.tick(1);
+      await promise.catch(() => null);
+      sinon.assert.calledOnce(rejected);
+      assert.match(String(rejected.args[0][0]), /timed out after 100ms/);
+      assert.isFalse(obs.hasListeners());
+
+      const promise2 = waitFor(obs, (v) => {
+        if (v < 0) { throw new Error("negative"); }
+        return false;
+      }, {timeout: 100});
+      obs.set(-1);
+      try {
+        await promise2;
+        assert.fail("expected an error");
+      } catch (e) {
+        assert.match(String(e), /negative/);
+      }
+      assert.isFalse(obs.hasListeners());
+      assert.equal(clock.countTimers(), 0);
+    });
+  });
+});
@@ -0,0 +1,227 @@
+import {computed} from '../../lib/computed';
+import {Disposable} from '../../lib/dispose';
+import {obsMap, obsSet} from '../../lib/obsMap';
+import {bundleChanges} from '../../lib/observable';
+import {assertResetFirstArgs, assertResetSingleCall} from './testutil2';
+
+import {assert} from 'chai';
+import * as sinon from 'sinon';
+
+describe('obsMap', function() {
+
+  describe('ObsMap', function() {
+    it('should emit correct change info on changes', function() {
+      const m = obsMap<string, number>();
+      const spy = sinon.spy();
+      m.addListener(spy);
+
+      m.setKey("a", 1);
+      assert.deepEqual([...m.get()], [["a", 1]]);
+      assertResetSingleCall(spy, undefined, m.get(), m.get(), {added: ["a"], deleted: new Map(), changed: new Map()});
+
+      m.setKey("b", 2);
+      assertResetSingleCall(spy, undefined, m.get(), m.get(), {added: ["b"], deleted: new Map(), changed: new Map()});
+
+      m.setKey("a", 10);
+      assert.deepEqual([...m.get()], [["a", 10], ["b", 2]]);
+      assertResetSingleCall(spy, undefined, m.get(), m.get(),
+        {added: [], deleted: new Map(), changed: new Map([["a", 1]])});
+
+      // Setting the same value does nothing.
+      m.setKey("a", 10);
+      sinon.assert.notCalled(spy);
+
+      assert.strictEqual(m.getKey("a"), 10);
+      assert.isTrue(m.hasKey("b"));
+      assert.equal(m.size, 2);
+
+      assert.isTrue(m.deleteKey("a"));
+      assert.deepEqual([...m.get()], [["b", 2]]);
+      assertResetSingleCall(spy, undefined, m.get(), m.get(),
+        {added: [], deleted: new Map([["a", 10]]), changed: new Map()});
+
+      assert.isFalse(m.deleteKey("a"));
+      sinon.assert.notCalled(spy);
+
+      m.setKey("c", 3);
+      spy.resetHistory();
+      m.clear();
+      assert.equal(m.size, 0);
+      assertResetSingleCall(spy, undefined, m.get(), m.get(),
+        {added: [], deleted: new Map([["b", 2], ["c", 3]]), changed: new Map()});
+      m.clear();
+      sinon.assert.notCalled(spy);
+
+      // Setting a new map emits a change without change info.
+      const prev = m.get();
+      m.set(new Map([["x", 5]]));
+      assertResetSingleCall(spy, undefined, m.get(), prev);
+    });
+
+    it('should allow depending on a single key', function() {
+      const m = obsMap<string, number>(new Map([["a", 1], ["b", 2]]));
+      const spyA = sinon.spy((use, k: string) => use(m.key(k)));
+      const compA = computed((use) => spyA(use, "a"));
+      const compC = computed((use) => spyA(use, "c"));
+      assert.equal(compA.get(), 1);
+      assert.equal(compC.get(), undefined);
+      spyA.resetHistory();
+
+      // Changes to other keys don't cause re-evaluation.
+      m.setKey("b", 20);
+      m.setKey("d", 4);
+      m.deleteKey("d");
+      sinon.assert.notCalled(spyA);
+
+      m.setKey("a", 10);
+      assert.equal(compA.get(), 10);
+      assert.deepEqual(spyA.args.map((args) => args[1]), ["a"]);
+      spyA.resetHistory();
+
+      m.setKey("c", 3);
+      assert.equal(compC.get(), 3);
+      m.deleteKey("c");
+      assert.equal(compC.get(), undefined);
+      assert.deepEqual(spyA.args.map((args) => args[1]), ["c", "c"]);
+      spyA.resetHistory();
+
+      // Replacing or clearing the map only re-evaluates computeds whose keys changed.
+      m.set(new Map([["a", 10], ["c", 5]]));
+      assert.equal(compA.get(), 10);
+      assert.equal(compC.get(), 5);
+      assert.deepEqual(spyA.args.map((args) => args[1]), ["c"]);
+      spyA.resetHistory();
+
+      m.clear();
+      assert.equal(compA.get(), undefined);
+      assert.equal(compC.get(), undefined);
+      assert.deepEqual(spyA.args.map((args) => args[1]), ["a", "c"]);
+      spyA.resetHistory();
+
+      // Several changes within bundleChanges() cause a single re-evaluation.
+      const both = computed((use) => spyA(use, "a") + "," + spyA(use, "b"));
+      spyA.resetHistory();
+      bundleChanges(() => {
+        m.setKey("a", 1);
+        m.setKey("b", 2);
+      });
+      assert.equal(both.get(), "1,2");
+      assert.deepEqual(spyA.args.map((args) => args[1]), ["a", "a", "b"]);
+
+      // The same ObsKey is returned while it's in use, and it's released after.
+      assert.strictEqual(m.key("a"), m.key("a"));
+      const keyA = m.key("a");
+      compA.dispose();
+      both.dispose();
+      assert.notStrictEqual(m.key("a"), keyA);
+      assert.equal(keyA.get(), 1);
+    });
+  });
+
+  describe('ObsSet', function() {
+    it('should emit correct change info on changes', function() {
+      const s = obsSet<string>();
+      const spy = sinon.spy();
+      s.addListener(spy);
+
+      s.add("a", "b", "a");
+      assert.deepEqual([...s.get()], ["a", "b"]);
+      assertResetSingleCall(spy, undefined, s.get(), s.get(), {added: ["a", "b"], deleted: []});
+
+      s.add("b", "c");
+      assert.deepEqual([...s.get()], ["a", "b", "c"]);
+      assertResetSingleCall(spy, undefined, s.get(), s.get(), {added: ["c"], deleted: []});
+
+      s.add("a");
+      sinon.assert.notCalled(spy);
+      assert.isTrue(s.has("a"));
+      assert.equal(s.size, 3);
+
+      s.delete("a", "x", "c");
+      assert.deepEqual([...s.get()], ["b"]);
+      assertResetSingleCall(spy, undefined, s.get(), s.get(), {added: [], deleted: ["a", "c"]});
+
+      s.delete("x");
+      sinon.assert.notCalled(spy);
+
+      s.clear();
+      assert.equal(s.size, 0);
+      assertResetSingleCall(spy, undefined, s.get(), s.get(), {added: [], deleted: ["b"]});
+    });
+
+    it('should allow depending on a single item', function() {
+      const s = obsSet<string>(new Set(["a"]));
+      const spy = sinon.spy((val: boolean) => val);
+      const hasB = computed((use) => spy(use(s.key("b"))));
+      assert.isFalse(hasB.get());
+      spy.resetHistory();
+
+      s.add("c");
+      s.delete("a");
+      sinon.assert.notCalled(spy);
+
+      s.add("b", "d");
+      assert.isTrue(hasB.get());
+      s.set(new Set(["b"]));
+      s.clear();
+      assert.isFalse(hasB.get());
+      assertResetFirstArgs(spy, true, false);
+    });
+  });
+
+  describe("disposable items", function() {
+    const fooDispose = sinon.spy();
+
+    class Foo extends Disposable {
+      constructor(public value: number) {
+        super();
+        this.onDispose(() => fooDispose(value));
+      }
+    }
+
+    beforeEach(function() {
+      fooDispose.resetHistory();
+    });
+
+    it('should dispose values an ObsMap owns', function() {
+      const m = obsMap<string, Foo>();
+      m.setKey("a", Foo.create(m, 1));
+      m.setKey("b", Foo.create(m, 2));
+      const unowned = Foo.create(null, 3);
+      m.setKey("c", unowned);
+      assertResetFirstArgs(fooDispose);
+
+      m.setKey("a", Foo.create(m, 4));
+      assertResetFirstArgs(fooDispose, 1);
+
+      m.deleteKey("c");
+      assertResetFirstArgs(fooDispose);
+
+      m.deleteKey("b");
+      assertResetFirstArgs(fooDispose, 2);
+
+      const kept = m.getKey("a")!;
+      m.setKey("d", Foo.create(m, 5));
+      m.set(new Map([["a", kept]]));
+      assertResetFirstArgs(fooDispose, 5);
+
+      m.dispose();
+      assertResetFirstArgs(fooDispose, 4);
+      unowned.dispose();
+    });
+
+    it('should dispose items an ObsSet owns', function() {
+      const s = obsSet<Foo>();
+      const [foo1, foo2, foo3] = [Foo.create(s, 1), Foo.create(s, 2), Foo.create(s, 3)];
+      s.add(foo1, foo2, foo3);
+      s.delete(foo2);
+      assertResetFirstArgs(fooDispose, 2);
+
+      s.set(new Set([foo3]));
+      assertResetFirstArgs(fooDispose, 1);
+
+      s.dispose();
+      assertResetFirstArgs(fooDispose, 3);
+    });
+  });
+});
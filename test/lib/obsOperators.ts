@@ -0,0 +1,101 @@
+import {combineObs, distinctObs, mapObs, MultiHolder, Observable, observable, previousObs, scanObs,
+  subscribe} from '../../index';
+
+import {assert} from 'chai';
+import * as ko from 'knockout';
+import * as sinon from 'sinon';
+
+describe('obsOperators', function() {
+
+  it('mapObs() should transform values', function() {
+    const user = observable({name: "Alice", age: 30});
+    const name = mapObs(user, (u) => u.name);
+    const typed: string = name.get();
+    assert.equal(typed, "Alice");
+    const spy = sinon.spy();
+    const sub = subscribe(name, (use, val) => spy(val));
+    spy.resetHistory();
+    user.set({name: "Bob", age: 31});
+    sinon.assert.calledOnceWithExactly(spy, "Bob");
+
+    // The age changes, but the name doesn't, so subscribers don't get called.
+    user.set({name: "Bob", age: 32});
+    sinon.assert.calledOnce(spy);
+    sub.dispose();
+
+    // Knockout observables work too.
+    const kObs = ko.observable(5);
+    assert.equal(mapObs(kObs, (v) => v * 2).get(), 10);
+  });
+
+  it('combineObs() should combine values into an object', function() {
+    const x = observable(1);
+    const label = observable("a");
+    const combined = combineObs({x, label});
+    const value: {x: number, label: string} = combined.get();
+    assert.deepEqual(value, {x: 1, label: "a"});
+
+    const spy = sinon.spy();
+    const sub = subscribe(combined, (use, val) => spy(val));
+    spy.resetHistory();
+    x.set(2);
+    sinon.assert.calledOnceWithExactly(spy, {x: 2, label: "a"});
+    sub.dispose();
+  });
+
+  it('distinctObs() should skip equal values', function() {
+    const items = observable([1, 2]);
+    const distinct = distinctObs(items);
+    const spy = sinon.spy();
+    const sub = subscribe(distinct, (use, val) => spy(val));
+    spy.resetHistory();
+    items.set([1, 2]);
+    sinon.assert.notCalled(spy);
+    items.set([1, 2, 3]);
+    sinon.assert.calledOnceWithExactly(spy, [1, 2, 3]);
+
+    // A custom equality function may be given.
+    const num = observable(1.1);
+    const rounded = distinctObs(num, (a, b) => Math.round(a) === Math.round(b));
+    const spy2 = sinon.spy();
+    const sub2 = subscribe(rounded, (use, val) => spy2(val));
+    spy2.resetHistory();
+    num.set(1.2);
+    sinon.assert.notCalled(spy2);
+    assert.equal(rounded.get(), 1.1);
+    num.set(2.2);
+    sinon.assert.calledOnceWithExactly(spy2, 2.2);
+    sub.dispose();
+    sub2.dispose();
+  });
+
+  it('scanObs() should accumulate values', function() {
+    const owner = MultiHolder.create(null);
+    const amount = Observable.create(owner, 5);
+    const total = scanObs(owner, amount, (sum, a) => sum + a, 100);
+    const history = scanObs(owner, amount, (acc: number[], a) => [...acc, a], []);
+    assert.equal(total.get(), 105);
+    amount.set(10);
+    amount.set(1);
+    assert.equal(total.get(), 116);
+    assert.deepEqual(history.get(), [5, 10, 1]);
+
+    owner.dispose();
+    assert.isTrue(total.isDisposed());
+    assert.isTrue(history.isDisposed());
+  });
+
+  it('previousObs() should hold the previous value', function() {
+    const owner = MultiHolder.create(null);
+    const value = Observable.create(null, "a");
+    const prev = previousObs(owner, value);
+    assert.strictEqual(prev.get(), undefined);
+    value.set("b");
+    assert.strictEqual(prev.get(), "a");
+    value.set("c");
+    assert.strictEqual(prev.get(), "b");
+    owner.dispose();
+    assert.isTrue(prev.isDisposed());
+    assert.isFalse(value.hasListeners());
+  });
+});
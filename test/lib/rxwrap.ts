@@ -0,0 +1,85 @@
+import {computed, fromRx, IRxObserver, MultiHolder, observable, observableSymbol, toRx} from '../../index';
+
+import {assert} from 'chai';
+import * as sinon from 'sinon';
+
+// A minimal implementation of a subject following the Observable protocol, like RxJS's Subject.
+class Subject<T> {
+  public observers = new Set<IRxObserver<T>>();
+  public subscribe(observer: IRxObserver<T>) {
+    this.observers.add(observer);
+    return {unsubscribe: () => this.observers.delete(observer)};
+  }
+  public next(value: T) { for (const o of [...this.observers]) { o.next?.(value); } }
+  public error(err: unknown) { for (const o of [...this.observers]) { o.error?.(err); } }
+  public complete() { for (const o of [...this.observers]) { o.complete?.(); } }
+}
+
+describe('rxwrap', function() {
+
+  it('toRx() should emit the current and then new values', function() {
+    const obs = observable(1);
+    const rx = toRx(obs);
+    assert.strictEqual(toRx(obs), rx);
+    assert.strictEqual((rx as any)[observableSymbol](), rx);
+
+    const spy = sinon.spy();
+    const sub = rx.subscribe(spy);
+    const observer = {next: sinon.spy()};
+    const sub2 = rx.subscribe(observer);
+    sinon.assert.calledOnceWithExactly(spy, 1);
+    obs.set(2);
+    assert.deepEqual(spy.args.map((args) => args[0]), [1, 2]);
+    assert.deepEqual(observer.next.args.map((args) => args[0]), [1, 2]);
+
+    sub.unsubscribe();
+    obs.set(3);
+    assert.deepEqual(spy.args.map((args) => args[0]), [1, 2]);
+    assert.deepEqual(observer.next.args.map((args) => args[0]), [1, 2, 3]);
+    sub2.unsubscribe();
+    assert.isFalse(obs.hasListeners());
+  });
+
+  it('fromRx() should take values from a subscribable', function() {
+    const owner = MultiHolder.create(null);
+    const subject = new Subject<string>();
+    const obs = fromRx(owner, subject, "initial");
+    const comp = computed((use) => use(obs).toUpperCase());
+    assert.equal(comp.get(), "INITIAL");
+    subject.next("foo");
+    assert.equal(obs.get(), "foo");
+    assert.equal(comp.get(), "FOO");
+
+    // Disposing the owner unsubscribes.
+    owner.dispose();
+    assert.isTrue(obs.isDisposed());
+    assert.equal(subject.observers.size, 0);
+    comp.dispose();
+  });
+
+  it('fromRx() should handle errors and completion', function() {
+    const subject = new Subject<number>();
+    const obs = fromRx(null, subject, 0);
+    subject.error(new Error("failed"));
+    assert.match(String(obs.error.get()), /failed/);
+    assert.equal(subject.observers.size, 0);
+
+    const subject2 = new Subject<number>();
+    const obs2 = fromRx(null, subject2, 0);
+    subject2.next(5);
+    subject2.complete();
+    assert.equal(obs2.get(), 5);
+    assert.equal(subject2.observers.size, 0);
+    obs.dispose();
+    obs2.dispose();
+  });
+
+  it('fromRx() should accept objects exposing a subscribable under observableSymbol', function() {
+    const subject = new Subject<number>();
+    const interop = {[observableSymbol as string]: () => subject} as any;
+    const obs = fromRx(null, interop, 0);
+    subject.next(7);
+    assert.equal(obs.get(), 7);
+    obs.dispose();
+  });
+});
@@ -0,0 +1,130 @@
+import {computed, fromSignal, ISignal, ISignalModule, observable, toSignal} from '../../index';
+
+import {assert} from 'chai';
+import * as sinon from 'sinon';
+
+// A minimal implementation of signals from the TC39 Signals proposal, enough for testing.
+interface ISink { markDirty(): void; }
+let currentComputed: ISink|null = null;
+
+class FakeSource {
+  public sinks = new Set<ISink>();
+  protected _track() { if (currentComputed) { this.sinks.add(currentComputed); } }
+  protected _markSinks() { for (const sink of [...this.sinks]) { sink.markDirty(); } }
+}
+
+class FakeState<T> extends FakeSource {
+  constructor(private _value: T) { super(); }
+  public get(): T { this._track(); return this._value; }
+  public set(value: T) {
+    if (value !== this._value) {
+      this._value = value;
+      this._markSinks();
+    }
+  }
+}
+
+function withCurrent<T>(sink: ISink, func: () => T): T {
+  const prev = currentComputed;
+  currentComputed = sink;
+  try {
+    return func();
+  } finally {
+    currentComputed = prev;
+  }
+}
+
+class FakeComputed<T> extends FakeSource implements ISink {
+  public calls = 0;
+  private _dirty = true;
+  private _value!: T;
+  constructor(private _fn: () => T) { super(); }
+  public get(): T {
+    this._track();
+    if (this._dirty) {
+      this.calls++;
+      this._value = withCurrent(this, this._fn);
+      this._dirty = false;
+    }
+    return this._value;
+  }
+  public markDirty() {
+    if (!this._dirty) {
+      this._dirty = true;
+      this._markSinks();
+    }
+  }
+}
+
+class FakeWatcher implements ISink {
+  private _notified = false;
+  constructor(private _notify: () => void) {}
+  public watch(...signals: FakeSource[]) {
+    this._notified = false;
+    for (const s of signals) { s.sinks.add(this); }
+  }
+  public unwatch(...signals: FakeSource[]) {
+    for (const s of signals) { s.sinks.delete(this); }
+  }
+  public markDirty() {
+    if (!this._notified) {
+      this._notified = true;
+      this._notify();
+    }
+  }
+}
+
+const Signal: ISignalModule = {State: FakeState, subtle: {Watcher: FakeWatcher as any}};
+
+// Waits for microtasks to run.
+function flush() {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe('signalwrap', function() {
+
+  it('fromSignal() should allow using signals in computeds', async function() {
+    const count = new FakeState(1);
+    const doubled = new FakeComputed(() => count.get() * 2);
+    const wrapped = fromSignal(Signal, doubled);
+    assert.strictEqual(fromSignal(Signal, doubled), wrapped);
+
+    const spy = sinon.spy();
+    const comp = computed((use) => spy(use(fromSignal(Signal, count)) + use(wrapped)));
+    sinon.assert.calledOnceWithExactly(spy, 3);
+    spy.resetHistory();
+
+    // Changes are delivered in a microtask, together for both wrappers; get() returns the
+    // up-to-date value right away.
+    count.set(2);
+    assert.equal(wrapped.get(), 4);
+    sinon.assert.notCalled(spy);
+    await flush();
+    assert.deepEqual(spy.args, [[6]]);
+    spy.resetHistory();
+
+    // Further changes are noticed too, and the wrapper can set a writable signal.
+    fromSignal(Signal, count).set(5);
+    assert.equal(count.get(), 5);
+    await flush();
+    assert.deepEqual(spy.args, [[15]]);
+    spy.resetHistory();
+
+    // Once unused, the wrappers stop watching.
+    comp.dispose();
+    assert.equal(count.sinks.size, 1);   // Only the FakeComputed remains.
+    assert.equal(doubled.sinks.size, 0);
+    assert.throws(() => wrapped.set(1), /read-only signal/);
+  });
+
+  it('toSignal() should let signals depend on observables', function() {
+    const obs = observable("a");
+    const sig: ISignal<string> = toSignal(Signal, obs);
+    assert.strictEqual(toSignal(Signal, obs), sig);
+    const upper = new FakeComputed(() => sig.get().toUpperCase());
+    assert.equal(upper.get(), "A");
+    obs.set("b");
+    assert.equal(upper.get(), "B");
+    assert.equal(upper.calls, 2);
+  });
+});
@@ -0,0 +1,124 @@
+import {G, popGlobals, pushGlobals} from '../../lib/browserGlobals';
+import {dom} from '../../lib/dom';
+import {obsArray} from '../../lib/obsArray';
+import {observable} from '../../lib/observable';
+import {createVirtualWindow, renderToString} from '../../lib/ssr';
+import {renderStyles, styled} from '../../lib/styled';
+
+import {assert} from 'chai';
+import {JSDOM} from 'jsdom';
+import * as sinon from 'sinon';
+
+describe('ssr', function() {
+  beforeEach(function() {
+    pushGlobals(createVirtualWindow());
+  });
+
+  afterEach(function() {
+    popGlobals();
+  });
+
+  it('should render elements, attributes, and text', function() {
+    const elem = dom('div#main.foo.bar', {title: 'Say "hi" & <bye>', hidden: true},
+      'Hello <world> & ',
+      dom('a', {href: '/x?a=1&b=2'}, dom.cls('link'), dom.text('link')),
+      dom('br'),
+      dom('input', {type: 'text'}),
+      dom('span', dom.style('fontWeight', 'bold'), dom.hide(true)),
+    );
+    assert.equal(renderToString(elem),
+      '<div id="main" class="foo bar" title="Say &quot;hi&quot; &amp; <bye>" hidden="">' +
+      'Hello &lt;world&gt; &amp; ' +
+      '<a href="/x?a=1&amp;b=2" class="link">link</a>' +
+      '<br><input type="text">' +
+      '<span style="font-weight: bold; display: none;"></span>' +
+      '</div>');
+    assert.equal(elem.textContent, 'Hello <world> & link');
+
+    // Non-breaking spaces are escaped, as in browsers.
+    const nbsp = dom('p', {title: '1\u00a0km'}, '2\u00a0km');
+    assert.equal(nbsp.outerHTML, '<p title="1&nbsp;km">2&nbsp;km</p>');
+    assert.equal(nbsp.innerHTML, '2&nbsp;km');
+  });
+
+  it('should render svg and raw-text elements', function() {
+    const elem = dom('div',
+      dom.svg('svg', {viewBox: '0 0 10 10'}, dom.svg('linearGradient', {id: 'g'})),
+      dom('script', 'if (a < b && c) {}'),
+    );
+    assert.equal(renderToString(elem),
+      '<div><svg viewBox="0 0 10 10"><linearGradient id="g"></linearGradient></svg>' +
+      '<script>if (a < b && c) {}</script></div>');
+  });
+
+  it('should render comment markers and reflect observable changes', function() {
+    const items = obsArray(['a', 'b']);
+    const flag = observable(true);
+    const name = observable('World');
+    const elem = dom('ul',
+      dom.forEach(items, (item) => dom('li', item)),
+      dom.maybe(flag, () => dom('li', 'flag')),
+      dom('li', 'Hello, ', dom.text(name)),
+      dom.cls('on', flag),
+    );
+    assert.equal(renderToString(elem),
+      '<ul class="on"><!--a--><li>a</li><li>b</li><!--b--><!--a--><li>flag</li><!--b-->' +
+      '<li>Hello, World</li></ul>');
+
+    items.splice(1, 0, 'x');
+    items.shift();
+    flag.set(false);
+    name.set('There');
+    assert.equal(renderToString(elem),
+      '<ul class=""><!--a--><li>x</li><li>b</li><!--b--><!--a--><!--b-->' +
+      '<li>Hello, There</li></ul>');
+  });
+
+  it('should render fragments and run disposers', function() {
+    const spy = sinon.spy();
+    const frag = dom.frag('x', dom('b', dom.onDispose(spy)), 'y');
+    assert.equal(renderToString(frag), 'x<b></b>y');
+
+    const elem = dom('div', frag);
+    assert.equal(renderToString(frag), '');
+    assert.equal(renderToString(elem), '<div>x<b></b>y</div>');
+    dom.domDispose(elem);
+    sinon.assert.calledOnce(spy);
+  });
+
+  it('should collect styles separately', function() {
+    const cssTitle = styled('h1', `color: red;`);
+    const elem = cssTitle('Hello');
+    assert.equal(renderToString(elem), `<h1 class="${cssTitle.className}">Hello</h1>`);
+    assert.include(renderStyles(), `.${cssTitle.className} {color: red;\n}`);
+  });
+
+  it('should keep separate documents independent', function() {
+    const doc1 = G.document;
+    pushGlobals(createVirtualWindow());
+    try {
+      assert.notStrictEqual(G.document, doc1);
+      assert.equal(renderToString(G.document.body.appendChild(dom('p', 'inner'))), '<p>inner</p>');
+      assert.equal(renderToString(G.document.body), '<body><p>inner</p></body>');
+    } finally {
+      popGlobals();
+    }
+    assert.equal(renderToString(G.document.body), '<body></body>');
+  });
+
+  it('should produce the same output as a real DOM', function() {
+    const build = () => dom('div', {id: 'x', title: 'a\u00a0b'}, 'a & b\u00a0c', dom('img', {src: 'i.png'}),
+      dom.domComputed(observable('c'), (c) => dom('em', c)));
+    const virtualHtml = renderToString(build());
+
+    const jsdomDoc = new JSDOM("<!doctype html><html><body></body></html>");
+    pushGlobals(jsdomDoc.window);
+    try {
+      const elem = build();
+      assert.equal(renderToString(elem), elem.outerHTML);
+      assert.equal(virtualHtml, elem.outerHTML);
+    } finally {
+      popGlobals();
+    }
+  });
+});
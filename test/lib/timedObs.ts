@@ -0,0 +1,130 @@
+import {computed, debounced, delayed, IClock, MultiHolder, Observable, throttled} from '../../index';
+
+import {assert} from 'chai';
+import * as sinon from 'sinon';
+
+// A clock for tests, whose time only moves when tick() is called.
+class FakeClock implements IClock {
+  public now = 0;
+  private _timers = new Map<number, {at: number, callback: () => void}>();
+  private _nextId = 1;
+
+  public setTimeout(callback: () => void, ms: number): unknown {
+    const id = this._nextId++;
+    this._timers.set(id, {at: this.now + ms, callback});
+    return id;
+  }
+
+  public clearTimeout(handle: unknown): void {
+    this._timers.delete(handle as number);
+  }
+
+  public get numTimers() { return this._timers.size; }
+
+  // Advances time by ms, calling due timers in order.
+  public tick(ms: number) {
+    const end = this.now + ms;
+    for (;;) {
+      const due = [...this._timers].filter(([, t]) => t.at <= end).sort((a, b) => a[1].at - b[1].at || a[0] - b[0]);
+      if (due.length === 0) { break; }
+      const [id, timer] = due[0];
+      this._timers.delete(id);
+      this.now = timer.at;
+      timer.callback();
+    }
+    this.now = end;
+  }
+}
+
+describe('timedObs', function() {
+  let clock: FakeClock;
+  beforeEach(function() {
+    clock = new FakeClock();
+  });
+
+  it('debounced() should take the value once the source stops changing', function() {
+    const source = Observable.create(null, "a");
+    const obs = debounced(null, source, 100, {clock});
+    const spy = sinon.spy();
+    const comp = computed((use) => spy(use(obs)));
+    spy.resetHistory();
+    assert.equal(obs.get(), "a");
+
+    source.set("ab");
+    clock.tick(50);
+    source.set("abc");
+    clock.tick(50);
+    assert.equal(obs.get(), "a");
+    assert.isTrue(obs.isPending());
+    sinon.assert.notCalled(spy);
+
+    clock.tick(50);
+    assert.equal(obs.get(), "abc");
+    assert.isFalse(obs.isPending());
+    sinon.assert.calledOnceWithExactly(spy, "abc");
+    assert.equal(clock.numTimers, 0);
+    comp.dispose();
+  });
+
+  it('throttled() should take the first change, then at most one value per interval', function() {
+    const source = Observable.create(null, 0);
+    const obs = throttled(null, source, 100, {clock});
+    const values: number[] = [];
+    obs.addListener((val) => values.push(val));
+
+    source.set(1);
+    assert.deepEqual(values, [1]);
+    source.set(2);
+    clock.tick(30);
+    source.set(3);
+    assert.deepEqual(values, [1]);
+    clock.tick(70);
+    assert.deepEqual(values, [1, 3]);
+
+    // Another window is open after taking a value, so the next change waits for it to end.
+    source.set(4);
+    assert.deepEqual(values, [1, 3]);
+    clock.tick(100);
+    assert.deepEqual(values, [1, 3, 4]);
+
+    // Once a window passes without changes, the next change is taken right away.
+    clock.tick(100);
+    assert.equal(clock.numTimers, 0);
+    source.set(5);
+    assert.deepEqual(values, [1, 3, 4, 5]);
+    obs.dispose();
+  });
+
+  it('delayed() should take each value after the delay', function() {
+    const source = Observable.create(null, 0);
+    const obs = delayed(null, source, 100, {clock});
+    const values: number[] = [];
+    obs.addListener((val) => values.push(val));
+
+    source.set(1);
+    clock.tick(40);
+    source.set(2);
+    clock.tick(60);
+    assert.deepEqual(values, [1]);
+    clock.tick(40);
+    assert.deepEqual(values, [1, 2]);
+    obs.dispose();
+  });
+
+  it('should clear timers when the owner is disposed', function() {
+    const source = Observable.create(null, 0);
+    const owner = MultiHolder.create(null);
+    const obs = debounced(owner, source, 100, {clock});
+    const obs2 = delayed(owner, source, 100, {clock});
+    source.set(1);
+    source.set(2);
+    assert.equal(clock.numTimers, 3);
+    owner.dispose();
+    assert.isTrue(obs.isDisposed());
+    assert.isTrue(obs2.isDisposed());
+    assert.equal(clock.numTimers, 0);
+
+    // The source no longer has listeners from them.
+    assert.isFalse(source.hasListeners());
+  });
+});
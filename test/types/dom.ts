@@ -3,6 +3,7 @@
  */
 import { expectType, expectError } from 'tsd';
 import { dom, DomArg, DomElementArg } from '../../lib/dom';
+import { Observable } from '../../lib/observable';
 
 expectType<HTMLDivElement>(dom('div', dom.text('hello')));
 expectType<HTMLDivElement>(dom('div', dom.hide(true)));
@@ -64,3 +65,10 @@ expectType<HTMLDivElement>(
 
 // Passing a DomArg<Node> to dom.update() shouldn't confuse type-inference.
 expectType<HTMLElement>(dom.update(document.body, null as DomArg, {style: '...'}));
+
+// dom.forEach() only passes an index observable with the withIndex option.
+dom.forEach(["a"], (item, i, index) => {
+  expectType<Observable<number>>(index);
+  return dom('div', item);
+}, {withIndex: true});
+expectError(dom.forEach(["a"], (item: string, i: number, index: Observable<number>) => dom('div', item)));
@@ -0,0 +1,28 @@
+/**
+ * Test types using tsd. See README in this directory.
+ */
+import { expectError, expectType } from 'tsd';
+import { MultiHolder } from '../../lib/dispose';
+import { computedArray, obsArray, ObsArray } from '../../lib/obsArray';
+import { Observable } from '../../lib/observable';
+
+const src = obsArray(["a", "b"]);
+
+// Without options, the mapper only gets the standard map() arguments.
+expectType<ObsArray<number>>(computedArray(src, (item, i) => item.length + i));
+expectError(computedArray(src, (item: string, i: number, arr: unknown, owner: MultiHolder) => item));
+
+// The withOwner option adds an owner, and withIndex adds an index observable too.
+computedArray(src, (item, i, arr, owner) => {
+  expectType<MultiHolder>(owner);
+  return item;
+}, {withOwner: true});
+expectError(computedArray(src,
+  (item: string, i: number, arr: unknown, owner: MultiHolder, indexObs: Observable<number>) => item,
+  {withOwner: true}));
+
+computedArray(src, (item, i, arr, owner, indexObs) => {
+  expectType<MultiHolder>(owner);
+  expectType<Observable<number>>(indexObs);
+  return item;
+}, {withIndex: true, lazy: true});